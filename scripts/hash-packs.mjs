@@ -0,0 +1,59 @@
+// scripts/hash-packs.mjs
+// 🔐 Turns plaintext puzzle packs in packs/ into hashed packs for the app
+//
+//   packs/core.json   → src/packs/core.json   (bundled)
+//   packs/<name>.json → public/packs/<name>.json, listed in index.json
+//
+// Each puzzle gets a random salt, and every solution is replaced by
+// sha256(`${salt}:${answer}`) as hex, lowercased first for `lower` puzzles.
+// Salts of already generated puzzles are reused so output stays stable.
+
+import { createHash, randomBytes } from "node:crypto";
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+const SRC_DIR = "packs";
+const CORE_OUT = "src/packs";
+const PUBLIC_OUT = "public/packs";
+
+const readJson = (path) =>
+  existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : null;
+
+const writeJson = (path, data) =>
+  writeFileSync(path, JSON.stringify(data, null, 2) + "\n");
+
+const hashAnswer = (salt, answer) =>
+  createHash("sha256").update(`${salt}:${answer}`).digest("hex");
+
+function hashPack(pack, previous) {
+  const salts = new Map((previous?.puzzles ?? []).map((p) => [p.id, p.salt]));
+  return {
+    ...pack,
+    puzzles: pack.puzzles.map((p) => {
+      const salt = salts.get(p.id) ?? randomBytes(8).toString("hex");
+      const solutions = p.solutions.map((s) =>
+        hashAnswer(salt, p.lower ? s.toLowerCase() : s)
+      );
+      return { ...p, salt, solutions };
+    }),
+  };
+}
+
+const published = [];
+
+for (const file of readdirSync(SRC_DIR).filter((f) => f.endsWith(".json"))) {
+  const pack = readJson(join(SRC_DIR, file));
+  if (!Array.isArray(pack?.puzzles)) {
+    console.error(`✗ ${file}: not a puzzle pack, skipped`);
+    process.exitCode = 1;
+    continue;
+  }
+
+  const isCore = pack.name === "core";
+  const out = join(isCore ? CORE_OUT : PUBLIC_OUT, file);
+  writeJson(out, hashPack(pack, readJson(out)));
+  if (!isCore) published.push(file);
+  console.log(`✓ ${file} → ${out} (${pack.puzzles.length} puzzles)`);
+}
+
+writeJson(join(PUBLIC_OUT, "index.json"), published.sort());
@@ -1,27 +1,39 @@
 import { useEffect, useRef, useState, type JSX } from "react";
-import Terminal from "./components/Terminal";
+import TerminalTabs from "./components/TerminalTabs";
 import PuzzleEngine from "./components/PuzzleEngine";
 import AnimatedHero from "./components/AnimatedHero";
 import HackerHUD from "./components/HackerHUD";
+import PuzzleStudio from "./components/PuzzleStudio";
 import ProjectsGrid from "./pages/ProjectsGrid";
 import { Analytics } from "@vercel/analytics/react";
+import {
+  getRoute,
+  labTarget,
+  onRouteChange,
+  solveRoutePuzzles,
+  type Route,
+} from "./lib/router";
+import { isStudioRoute } from "./lib/studio";
+import { read, write } from "./lib/storage";
+import { selectBadges, useGameState } from "./lib/store";
+import { on } from "./lib/events";
 
 const themes = ["dark", "green", "blue", "red"] as const;
+type Theme = (typeof themes)[number];
+
+const isTheme = (x: unknown): x is Theme => themes.includes(x as Theme);
+
+function paintTheme(theme: Theme): void {
+  document.documentElement.classList.remove(...themes);
+  if (theme !== "dark") document.documentElement.classList.add(theme);
+}
 
 export default function App(): JSX.Element {
   const [showTerminal, setShowTerminal] = useState(false);
-  const [badges, setBadges] = useState<string[]>(() => {
-    try {
-      const raw = localStorage.getItem("portfolio_badges");
-      return raw ? JSON.parse(raw) : [];
-    } catch {
-      return [];
-    }
-  });
-  const [hintUsage, setHintUsage] = useState<Record<string, number>>({});
-  const [currentTheme, setCurrentTheme] = useState<
-    "dark" | "green" | "blue" | "red"
-  >("dark");
+  const badges = useGameState(selectBadges);
+  const [focusPuzzle, setFocusPuzzle] = useState<string | undefined>();
+  const [studio, setStudio] = useState(() => isStudioRoute(getRoute()));
+  const [currentTheme, setCurrentTheme] = useState<Theme>("dark");
 
   const projectsRef = useRef<HTMLDivElement | null>(null);
   const hackerLabRef = useRef<HTMLDivElement | null>(null);
@@ -30,30 +42,35 @@ export default function App(): JSX.Element {
     const nextIndex = (themes.indexOf(currentTheme) + 1) % themes.length;
     const nextTheme = themes[nextIndex];
     setCurrentTheme(nextTheme);
-
-    document.documentElement.classList.remove(...themes);
-    if (nextTheme !== "dark") document.documentElement.classList.add(nextTheme);
+    paintTheme(nextTheme);
 
     const root = document.documentElement;
     root.classList.add("matrix-flicker");
     setTimeout(() => root.classList.remove("matrix-flicker"), 350);
 
-    localStorage.setItem("theme", nextTheme);
+    write("theme", nextTheme);
   }
 
   useEffect(() => {
-    const saved = localStorage.getItem("theme") as
-      | "dark"
-      | "green"
-      | "blue"
-      | "red"
-      | null;
-    if (saved && themes.includes(saved)) {
+    const saved = read("theme");
+    if (isTheme(saved)) {
       setCurrentTheme(saved);
-      document.documentElement.classList.add(saved);
+      paintTheme(saved);
     }
   }, []);
 
+  // 🔄 Theme switched in another tab
+  useEffect(
+    () =>
+      on("sync:applied", ({ key }) => {
+        const theme = read("theme");
+        if (key !== "theme" || !isTheme(theme)) return;
+        setCurrentTheme(theme);
+        paintTheme(theme);
+      }),
+    []
+  );
+
   const [scrolled, setScrolled] = useState(false);
 
   useEffect(() => {
@@ -64,23 +81,41 @@ export default function App(): JSX.Element {
     return () => window.removeEventListener("scroll", handleScroll);
   }, []);
 
-  function addBadge(id: string) {
-    setBadges((prev) => {
-      if (prev.includes(id)) return prev;
-      const next = [...prev, id];
-      localStorage.setItem("portfolio_badges", JSON.stringify(next));
-      return next;
-    });
-  }
+  // 🧭 Deep links (#/lab/<id>) and URL-based route puzzles
+  useEffect(() => {
+    const showLab = (puzzleId?: string) => {
+      setShowTerminal(true);
+      if (puzzleId) setFocusPuzzle(puzzleId);
+      setTimeout(() => {
+        hackerLabRef.current?.scrollIntoView({
+          behavior: "smooth",
+          block: "start",
+        });
+      }, 50);
+    };
+
+    const handleRoute = async (route: Route) => {
+      setStudio(isStudioRoute(route));
+      if (isStudioRoute(route)) return;
+
+      const target = labTarget(route);
+      if (target !== null) showLab(target);
+
+      const solved = await solveRoutePuzzles(route);
+      if (solved.length) showLab(solved[solved.length - 1]);
+    };
+
+    handleRoute(getRoute());
+    return onRouteChange(handleRoute);
+  }, []);
 
   function scrollToProjects() {
     projectsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
   }
 
   function openHackerLab() {
-    setShowTerminal(false);
+    setShowTerminal(true);
     setTimeout(() => {
-      setShowTerminal(true);
       hackerLabRef.current?.scrollIntoView({
         behavior: "smooth",
         block: "start",
@@ -88,7 +123,8 @@ export default function App(): JSX.Element {
     }, 50);
   }
 
-  const totalHintsUsed = Object.values(hintUsage).reduce((a, b) => a + b, 0);
+  // 🛠️ Hidden authoring mode replaces the whole page
+  if (studio) return <PuzzleStudio />;
 
   return (
     <div className="min-h-screen bg-bg text-text font-sans transition-all duration-500 ease-slow">
@@ -150,7 +186,7 @@ export default function App(): JSX.Element {
       </header>
 
       {/* HUD */}
-      <HackerHUD hintUsageCount={totalHintsUsed} />
+      <HackerHUD />
 
       {/* MAIN */}
       <main className="max-w-6xl mx-auto px-6 pt-20">
@@ -177,16 +213,11 @@ export default function App(): JSX.Element {
           </p>
 
           <div className="rounded-lg border border-surface p-4 bg-surface-alt space-y-4">
-            <Terminal
-              key={showTerminal ? "visible" : "hidden"}
+            <TerminalTabs
               visible={showTerminal}
-              onSolved={(id) => addBadge(id)}
-              onPuzzleTrigger={(pid) => {
-                console.log("Triggered puzzle:", pid);
-                localStorage.setItem("activePuzzle", pid);
-              }}
+              onPuzzleTrigger={(pid) => write("activePuzzle", pid)}
             />
-            <PuzzleEngine onHintUsageChange={setHintUsage} />
+            <PuzzleEngine focusPuzzleId={focusPuzzle} />
           </div>
         </section>
 
@@ -1,44 +1,33 @@
 import { useEffect, useState } from "react";
-import { getPuzzles, isSolved } from "../lib/puzzles";
+import { getPuzzles } from "../lib/puzzles";
+import {
+  selectBalance,
+  selectHintsUsed,
+  selectImported,
+  selectSolved,
+  useGameState,
+} from "../lib/store";
+import SaveCodeModal, { type SaveMode } from "./SaveCodeModal";
 
-interface HackerHUDProps {
-  hintUsageCount: number;
-}
-
-export default function HackerHUD({ hintUsageCount }: HackerHUDProps) {
-  const [solved, setSolved] = useState(0);
-  const [total, setTotal] = useState(0);
-  const [hiddenUnlocked, setHiddenUnlocked] = useState(false);
+export default function HackerHUD() {
   const [expanded, setExpanded] = useState(true);
+  const [saveMode, setSaveMode] = useState<SaveMode | null>(null);
+  const solvedIds = useGameState(selectSolved);
+  const points = useGameState(selectBalance);
+  const hintsUsed = useGameState(selectHintsUsed);
+  const imported = useGameState(selectImported);
 
   // ✅ Automatically collapse on mobile
   useEffect(() => {
     if (window.innerWidth < 640) setExpanded(false);
   }, []);
 
-  useEffect(() => {
-    const puzzles = getPuzzles(true);
-    setTotal(puzzles.length);
-    const solvedCount = puzzles.filter((p) => isSolved(p.id)).length;
-    setSolved(solvedCount);
-
-    const hasHiddenUnlocked = puzzles.some(
-      (p) => p.hidden && isSolved(p.id)
-    );
-    setHiddenUnlocked(hasHiddenUnlocked);
-  }, [hintUsageCount]);
-
-  // Update on localStorage changes (cross-tab sync)
-  useEffect(() => {
-    const handler = () => {
-      const puzzles = getPuzzles(true);
-      const solvedCount = puzzles.filter((p) => isSolved(p.id)).length;
-      setSolved(solvedCount);
-      setHiddenUnlocked(puzzles.some((p) => p.hidden && isSolved(p.id)));
-    };
-    window.addEventListener("storage", handler);
-    return () => window.removeEventListener("storage", handler);
-  }, []);
+  const puzzles = getPuzzles(true);
+  const total = puzzles.length;
+  const solved = puzzles.filter((p) => solvedIds.includes(p.id)).length;
+  const hiddenUnlocked = puzzles.some(
+    (p) => p.hidden && solvedIds.includes(p.id)
+  );
 
   const progressPercent = total ? Math.round((solved / total) * 100) : 0;
 
@@ -97,9 +86,22 @@ export default function HackerHUD({ hintUsageCount }: HackerHUDProps) {
                 {solved} / {total}
               </span>
             </div>
+            {imported.length > 0 && (
+              <div
+                className="flex justify-between"
+                title="Solved on another device; save codes can't be verified"
+              >
+                <span>📥 Imported</span>
+                <span>{imported.length} unverified</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span>💰 Points</span>
+              <span className="text-yellow-400">{points}</span>
+            </div>
             <div className="flex justify-between">
               <span>💡 Hints Used</span>
-              <span>{hintUsageCount}</span>
+              <span>{hintsUsed}</span>
             </div>
             <div className="flex justify-between">
               <span>🔒 Hidden</span>
@@ -109,11 +111,33 @@ export default function HackerHUD({ hintUsageCount }: HackerHUDProps) {
             </div>
           </div>
 
+          {/* SAVE CODES */}
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => setSaveMode("export")}
+              className="cursor-pointer flex-1 rounded border border-surface-alt
+                         py-1 text-text-dim hover:text-accent transition-all"
+            >
+              📤 Export
+            </button>
+            <button
+              onClick={() => setSaveMode("import")}
+              className="cursor-pointer flex-1 rounded border border-surface-alt
+                         py-1 text-text-dim hover:text-accent transition-all"
+            >
+              📥 Import
+            </button>
+          </div>
+
           <div className="mt-2 text-[10px] text-text-dim italic text-right opacity-70">
             Data saved locally 🧠
           </div>
         </div>
       )}
+
+      {saveMode && (
+        <SaveCodeModal mode={saveMode} onClose={() => setSaveMode(null)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,95 @@
+import { useState, type JSX } from "react";
+import { getPuzzles } from "../lib/puzzles";
+import {
+  formatDuration,
+  getLeaderboard,
+  saveRun,
+  summarizeRun,
+  type Run,
+} from "../lib/stats";
+
+/** Current run totals plus the saved local leaderboard. */
+export default function Leaderboard(): JSX.Element {
+  const [runs, setRuns] = useState<Run[]>(() => getLeaderboard());
+  const [name, setName] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const puzzles = getPuzzles(true);
+  const current = summarizeRun(puzzles);
+
+  function save(): void {
+    const trimmed = name.trim().slice(0, 16);
+    if (!trimmed) return;
+    const rank = saveRun(trimmed, current);
+    setRuns(getLeaderboard());
+    setName("");
+    setNotice(
+      rank ? `🏆 Saved — rank #${rank}` : "Didn't make the leaderboard."
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {/* 📊 Current run */}
+      <div className="p-3 rounded border border-surface bg-surface/40">
+        <div className="text-xs text-text-dim uppercase mb-1">Current run</div>
+        <div className="flex justify-between">
+          <span className="text-accent font-semibold">{current.score} pts</span>
+          <span className="text-text-dim">
+            {current.solved}/{puzzles.length} solved ·{" "}
+            {formatDuration(current.duration)}
+          </span>
+        </div>
+        <div className="text-xs text-text-dim mt-1">
+          {current.hints} hints · {current.wrong} wrong guesses
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            save();
+          }}
+          className="flex gap-2 mt-2"
+        >
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Your handle"
+            maxLength={16}
+            className="flex-1 min-w-0 bg-transparent border border-surface px-2 py-1 rounded text-xs focus:outline-none focus:ring-2 focus:ring-accent/30"
+          />
+          <button
+            type="submit"
+            className="cursor-pointer px-2 py-1 rounded border border-surface text-xs hover:bg-surface-alt transition-all"
+          >
+            Save run
+          </button>
+        </form>
+        {notice && <div className="text-xs text-accent mt-1">{notice}</div>}
+      </div>
+
+      {/* 🏆 Saved runs */}
+      {runs.length === 0 ? (
+        <p className="text-text-dim text-xs">No runs saved yet.</p>
+      ) : (
+        <ol className="space-y-1">
+          {runs.map((r, i) => (
+            <li
+              key={`${r.name}-${r.at}`}
+              className="flex items-center gap-2 p-2 rounded border border-surface text-xs"
+            >
+              <span className="w-5 text-text-dim">{i + 1}.</span>
+              <span className="flex-1 truncate">{r.name}</span>
+              <span className="text-accent">{r.score}</span>
+              <span
+                className="text-text-dim"
+                title={`${r.hints} hints, ${r.wrong} wrong`}
+              >
+                {r.solved}✓ · {formatDuration(r.duration)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
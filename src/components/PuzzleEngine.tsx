@@ -1,54 +1,57 @@
 import { useEffect, useState, useCallback, type JSX } from "react";
 import {
   getPuzzles,
+  findPuzzle,
   isSolved,
+  isUnlocked,
+  formatRequirement,
   checkSolution,
   getHints,
+  getHintCost,
+  unlockHints,
   getDifficultyColor,
   getDifficultyLabel,
   type Puzzle,
   type Difficulty,
 } from "../lib/puzzles";
-
-type HintUsage = Record<string, number>;
+import { checkFunds } from "../lib/wallet";
+import { recordSeen } from "../lib/stats";
+import { formatLockout, getLockout } from "../lib/ratelimit";
+import { on } from "../lib/events";
+import {
+  selectHintUsage,
+  selectSolved,
+  useGameState,
+} from "../lib/store";
+import UnlockGraph from "./UnlockGraph";
+import Leaderboard from "./Leaderboard";
 
 interface PuzzleEngineProps {
-  onHintUsageChange?: (usage: Record<string, number>) => void;
-}
-
-function readHintUsage(): HintUsage {
-  try {
-    const raw = localStorage.getItem("puzzle_hint_usage");
-    return raw ? JSON.parse(raw) : {};
-  } catch {
-    return {};
-  }
-}
-
-function writeHintUsage(obj: HintUsage): void {
-  try {
-    localStorage.setItem("puzzle_hint_usage", JSON.stringify(obj));
-  } catch {
-    /* ignore */
-  }
+  focusPuzzleId?: string;
 }
 
 export default function PuzzleEngine({
-  onHintUsageChange,
+  focusPuzzleId,
 }: PuzzleEngineProps): JSX.Element {
   const [puzzles, setPuzzles] = useState<Puzzle[]>([]);
   const [selected, setSelected] = useState<Puzzle | null>(null);
   const [attempt, setAttempt] = useState<string>("");
-  const [hintUsage, setHintUsage] = useState<HintUsage>(() => readHintUsage());
+  const hintUsage = useGameState(selectHintUsage);
+  const solvedIds = useGameState(selectSolved);
   const [message, setMessage] = useState<string | null>(null);
-  const [solvedState, setSolvedState] = useState<Record<string, boolean>>({});
-  const [showHidden, setShowHidden] = useState<boolean>(false);
+  const [view, setView] = useState<"list" | "graph" | "scores">(
+    "list"
+  );
+  const [lockedUntil, setLockedUntil] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const retryIn = Math.max(lockedUntil - now, 0);
 
   // 🔓 Dynamic Unlock Modal State
   const [unlockModal, setUnlockModal] = useState<{
     show: boolean;
     tier: number | null;
     mode: "confirm" | "challenge" | "ad" | "terminal";
+    cost?: number;
     countdown?: number;
     challengeCompleted?: boolean;
     commandRequired?: string;
@@ -59,82 +62,98 @@ export default function PuzzleEngine({
     mode: "confirm",
   });
 
-  // 🧠 Initial Load
+  // 🧠 Initial Load, then again as puzzle packs arrive
   useEffect(() => {
-    const all = getPuzzles(true);
-    const solvedMap: Record<string, boolean> = {};
-    all.forEach((p) => {
-      solvedMap[p.id] = isSolved(p.id);
-    });
-    setSolvedState(solvedMap);
-    setPuzzles(all);
+    setPuzzles(getPuzzles(true));
+    return on("packs:registered", () => setPuzzles(getPuzzles(true)));
   }, []);
 
-  // 💾 Persist hint usage
+  // 🔗 Open the puzzle named by a deep link or a solved route puzzle, once
+  // its pack has loaded
+  const focused = focusPuzzleId ? findPuzzle(focusPuzzleId) : undefined;
   useEffect(() => {
-    writeHintUsage(hintUsage);
-    onHintUsageChange?.(hintUsage);
-  }, [hintUsage, onHintUsageChange]);
+    const p = focused;
+    if (!p || (p.hidden && !isSolved(p.id) && !isUnlocked(p.id))) return;
+    recordSeen(p.id);
+    setSelected(p);
+    setAttempt("");
+    setMessage(null);
+    setNow(Date.now());
+    setLockedUntil(Date.now() + getLockout(p.id));
+  }, [focused]);
 
-  // 🔍 Unlock hidden puzzles when all are solved
+  // ⏳ Tick the lockout countdown once a second until it runs out
   useEffect(() => {
-    const allSolved = Object.values(solvedState).every(Boolean);
-    if (allSolved) setShowHidden(true);
-  }, [solvedState]);
+    if (lockedUntil <= now) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [lockedUntil, now]);
 
   // 🔓 Confirm Unlock (stable)
   const confirmUnlockHint = useCallback((): void => {
     if (!selected || unlockModal.tier === null) return;
 
-    const tier = unlockModal.tier;
-    setHintUsage((prev) => ({
-      ...prev,
-      [selected.id]: Math.max(prev[selected.id] ?? 0, tier),
-    }));
+    // 💰 Pays for every tier being revealed; tiers already paid are skipped
+    const res = unlockHints(selected.id, unlockModal.tier);
+    if (!res.ok) setMessage(res.error);
     setUnlockModal({ show: false, tier: null, mode: "confirm" });
   }, [selected, unlockModal.tier]);
 
   // 🧩 Listen for terminal commands (for terminal unlock mode)
   useEffect(() => {
-    const handleTerminalCommand = (e: Event): void => {
-      const customEvent = e as CustomEvent<{ command: string }>;
-      const command = customEvent.detail?.command?.toLowerCase();
-
+    return on("command:executed", ({ command }) => {
       if (!unlockModal.show || unlockModal.mode !== "terminal") return;
 
-      if (command === unlockModal.commandRequired?.toLowerCase()) {
+      if (
+        command.toLowerCase() === unlockModal.commandRequired?.toLowerCase()
+      ) {
         setUnlockModal((prev) => ({ ...prev, completed: true }));
         setTimeout(() => confirmUnlockHint(), 600);
       }
-    };
-
-    window.addEventListener("terminal-command", handleTerminalCommand);
-    return () =>
-      window.removeEventListener("terminal-command", handleTerminalCommand);
+    });
   }, [unlockModal, confirmUnlockHint]);
 
   // 🎯 Select Puzzle
   function openPuzzle(p: Puzzle): void {
+    recordSeen(p.id);
     setSelected(p);
     setAttempt("");
     setMessage(null);
+    setNow(Date.now());
+    setLockedUntil(Date.now() + getLockout(p.id));
   }
 
   // ✅ Try to Solve Puzzle
-  function trySolve(): void {
+  async function trySolve(): Promise<void> {
     if (!selected) return;
-    const res = checkSolution(selected.id, attempt.trim());
-    setMessage(res.message);
-    if (res.ok) {
-      setSolvedState((s) => ({ ...s, [selected.id]: true }));
-      setTimeout(() => setShowHidden(true), 800);
+    // Re-solving would only add attempts to the stats
+    if (isSolved(selected.id)) {
+      setMessage(`🔁 ${selected.title} is already solved.`);
+      return;
+    }
+    const res = await checkSolution(selected.id, attempt.trim());
+    if (res.retryIn) {
+      // the countdown below replaces the message while locked out
+      setMessage(null);
+      setNow(Date.now());
+      setLockedUntil(Date.now() + res.retryIn);
+      return;
     }
+    setMessage(res.message);
   }
 
   // ⚙️ Choose Unlock Mode
   function triggerUnlock(tier: number): void {
     if (!selected) return;
 
+    const used = hintUsage[selected.id] ?? 0;
+    const cost = getHintCost(selected.id, used + 1, tier);
+    const funds = checkFunds(cost);
+    if (!funds.ok) {
+      setMessage(funds.error);
+      return;
+    }
+
     const difficulty = selected.difficulty ?? "easy";
     let mode: "confirm" | "challenge" | "ad" | "terminal" = "confirm";
 
@@ -150,7 +169,7 @@ export default function PuzzleEngine({
     }
 
     if (mode === "ad") {
-      setUnlockModal({ show: true, tier, mode, countdown: 5 });
+      setUnlockModal({ show: true, tier, mode, cost, countdown: 5 });
       let time = 5;
       const timer = setInterval(() => {
         time--;
@@ -170,12 +189,24 @@ export default function PuzzleEngine({
         });
       }, 1000);
     } else if (mode === "challenge") {
-      setUnlockModal({ show: true, tier, mode, challengeCompleted: false });
+      setUnlockModal({
+        show: true,
+        tier,
+        mode,
+        cost,
+        challengeCompleted: false,
+      });
     } else if (mode === "terminal") {
       const command = `unlock hint${tier}`;
-      setUnlockModal({ show: true, tier, mode, commandRequired: command });
+      setUnlockModal({
+        show: true,
+        tier,
+        mode,
+        cost,
+        commandRequired: command,
+      });
     } else {
-      setUnlockModal({ show: true, tier, mode });
+      setUnlockModal({ show: true, tier, mode, cost });
     }
   }
 
@@ -197,6 +228,7 @@ export default function PuzzleEngine({
         {hints.map((h, i) => {
           const tier = i + 1;
           const visible = used >= tier;
+          const cost = getHintCost(p.id, used + 1, tier);
           const randomLockMessage =
             lockedMessages[Math.floor(Math.random() * lockedMessages.length)];
           return (
@@ -229,7 +261,7 @@ export default function PuzzleEngine({
                   onClick={() => triggerUnlock(tier)}
                   className="cursor-pointer ml-auto text-xs px-2 py-1 rounded border border-surface hover:bg-surface-alt transition-all hover:scale-[1.03] active:scale-95 focus:outline-none focus:ring-2 focus:ring-accent/30"
                 >
-                  Unlock
+                  Unlock{cost > 0 && ` · ${cost} pts`}
                 </button>
               )}
             </div>
@@ -239,13 +271,14 @@ export default function PuzzleEngine({
     );
   }
 
-  // 🎨 Visible Puzzles
-  const visiblePuzzles = puzzles.filter((p) => {
-    if (!p.hidden) return true;
-    if (showHidden) return true;
-    const deps = p.dependsOn ?? [];
-    return deps.every((d) => solvedState[d]);
-  });
+  // 🎨 Visible Puzzles (hidden ones appear once their prerequisites are solved)
+  const visiblePuzzles = puzzles.filter(
+    (p) => !p.hidden || solvedIds.includes(p.id) || isUnlocked(p.id)
+  );
+  const selectedLocked =
+    selected !== null &&
+    !solvedIds.includes(selected.id) &&
+    !isUnlocked(selected.id);
 
   return (
     <div className="relative flex flex-col md:flex-row gap-4">
@@ -257,38 +290,68 @@ export default function PuzzleEngine({
       >
         <h4 className="font-semibold mb-3 text-lg flex items-center gap-2">
           Puzzles <span className="text-xs text-accent/80">(Hack & Solve)</span>
-        </h4>
-
-        <ul className="space-y-2">
-          {visiblePuzzles.map((p) => {
-            const solved = solvedState[p.id];
-            const diff: Difficulty = p.difficulty ?? "easy";
-            const diffColor = getDifficultyColor(diff);
-            const diffLabel = getDifficultyLabel(diff);
-            return (
-              <li
-                key={p.id}
-                onClick={() => openPuzzle(p)}
-                className={`p-3 rounded cursor-pointer border transition-all ${
-                  selected?.id === p.id
-                    ? "border-accent/50 bg-surface-alt/70 scale-[1.01]"
-                    : "border-surface hover:bg-surface/60 hover:scale-[1.01]"
+          <div className="ml-auto flex text-xs border border-surface rounded overflow-hidden">
+            {(["list", "graph", "scores"] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`cursor-pointer px-2 py-1 capitalize transition-all ${
+                  view === v
+                    ? "bg-accent/20 text-accent"
+                    : "text-text-dim hover:bg-surface/60"
                 }`}
               >
-                <div className="flex items-center justify-between">
-                  <div>
-                    <div className="font-medium text-sm flex items-center gap-2">
-                      {p.title}
-                      <span className={`text-xs ${diffColor}`}>{diffLabel}</span>
+                {v}
+              </button>
+            ))}
+          </div>
+        </h4>
+
+        {view === "graph" ? (
+          <UnlockGraph
+            puzzles={visiblePuzzles}
+            selectedId={selected?.id}
+            onSelect={openPuzzle}
+          />
+        ) : view === "scores" ? (
+          <Leaderboard />
+        ) : (
+          <ul className="space-y-2">
+            {visiblePuzzles.map((p) => {
+              const solved = solvedIds.includes(p.id);
+              const locked = !solved && !isUnlocked(p.id);
+              const diff: Difficulty = p.difficulty ?? "easy";
+              const diffColor = getDifficultyColor(diff);
+              const diffLabel = getDifficultyLabel(diff);
+              return (
+                <li
+                  key={p.id}
+                  onClick={() => openPuzzle(p)}
+                  className={`p-3 rounded cursor-pointer border transition-all ${
+                    locked ? "opacity-60 " : ""
+                  }${
+                    selected?.id === p.id
+                      ? "border-accent/50 bg-surface-alt/70 scale-[1.01]"
+                      : "border-surface hover:bg-surface/60 hover:scale-[1.01]"
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium text-sm flex items-center gap-2">
+                        {p.title}
+                        <span className={`text-xs ${diffColor}`}>{diffLabel}</span>
+                      </div>
+                      <div className="text-xs text-text-dim">{p.short}</div>
+                    </div>
+                    <div className="text-xs">
+                      {solved ? "✓" : locked ? "🔒" : "○"}
                     </div>
-                    <div className="text-xs text-text-dim">{p.short}</div>
                   </div>
-                  <div className="text-xs">{solved ? "✓" : "○"}</div>
-                </div>
-              </li>
-            );
-          })}
-        </ul>
+                </li>
+              );
+            })}
+          </ul>
+        )}
       </aside>
 
       {/* 🎯 Puzzle Details */}
@@ -301,32 +364,55 @@ export default function PuzzleEngine({
               solving others.
             </p>
           </div>
+        ) : selectedLocked ? (
+          <>
+            <h4 className="font-semibold text-lg">{selected.title}</h4>
+            <p className="text-sm text-text-dim mt-2">
+              {formatRequirement(selected.id)}
+            </p>
+          </>
         ) : (
           <>
             <h4 className="font-semibold text-lg">{selected.title}</h4>
             <p className="text-sm text-text-dim mt-2">{selected.description}</p>
             {renderHints(selected)}
             <div className="mt-5">
-              <form
-                onSubmit={(e) => {
-                  e.preventDefault();
-                  trySolve();
-                }}
-                className="flex flex-col sm:flex-row gap-2"
-              >
-                <input
-                  value={attempt}
-                  onChange={(e) => setAttempt(e.target.value)}
-                  placeholder="Type solution here..."
-                  className="flex-1 bg-transparent border border-surface px-3 py-2 rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/30"
-                />
-                <button
-                  type="submit"
-                  className="cursor-pointer px-4 py-2 rounded bg-surface border border-surface hover:bg-surface-alt transition-all focus:outline-none focus:ring-2 focus:ring-accent/30"
+              {selected.type === "route" ? (
+                <p className="text-sm text-text-dim">
+                  🧭 Solved by visiting the right URL — the address bar is
+                  your input.
+                </p>
+              ) : (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    trySolve();
+                  }}
+                  className="flex flex-col sm:flex-row gap-2"
                 >
-                  Try
-                </button>
-              </form>
+                  <input
+                    value={attempt}
+                    disabled={retryIn > 0}
+                    onChange={(e) => setAttempt(e.target.value)}
+                    placeholder="Type solution here..."
+                    className="flex-1 bg-transparent border border-surface px-3 py-2 rounded text-sm focus:outline-none focus:ring-2 focus:ring-accent/30"
+                  />
+                  <button
+                    type="submit"
+                    disabled={retryIn > 0}
+                    className="cursor-pointer px-4 py-2 rounded bg-surface border border-surface hover:bg-surface-alt transition-all focus:outline-none focus:ring-2 focus:ring-accent/30 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {retryIn > 0
+                      ? `Locked ${Math.ceil(retryIn / 1000)}s`
+                      : "Try"}
+                  </button>
+                </form>
+              )}
+              {retryIn > 0 && (
+                <div className="mt-2 text-sm text-red-400 animate-pulse">
+                  {formatLockout(retryIn)}
+                </div>
+              )}
               {message && (
                 <div
                   className={`mt-2 text-sm ${
@@ -361,6 +447,12 @@ export default function PuzzleEngine({
               Unlock Hint {unlockModal.tier}
             </h4>
 
+            {!!unlockModal.cost && (
+              <p className="text-xs text-yellow-400 mb-2">
+                💰 Costs {unlockModal.cost} points
+              </p>
+            )}
+
             {unlockModal.mode === "confirm" && (
               <p className="text-sm text-text-dim mb-4">
                 Confirm unlock to reveal this hint.
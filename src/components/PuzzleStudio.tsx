@@ -0,0 +1,551 @@
+import { useEffect, useRef, useState, type JSX, type ReactNode } from "react";
+import PuzzleEngine from "./PuzzleEngine";
+import {
+  setPreviewPuzzles,
+  type HintTier,
+  type PuzzleFile,
+} from "../lib/puzzles";
+import { qualifyId } from "../lib/packs";
+import { enterSandbox, exitSandbox } from "../lib/sandbox";
+import {
+  compileDraft,
+  getExternalPuzzles,
+  loadDraft,
+  newPack,
+  newPuzzle,
+  parseDraft,
+  saveDraft,
+  serializeDraft,
+  type DraftPack,
+  type DraftPuzzle,
+} from "../lib/studio";
+
+const INPUT =
+  "w-full bg-transparent border border-surface px-2 py-1 rounded text-xs text-text focus:outline-none focus:ring-2 focus:ring-accent/30";
+const BUTTON =
+  "cursor-pointer px-2 py-1 rounded border border-surface text-xs hover:bg-surface-alt transition-all";
+
+function Field({
+  label,
+  children,
+}: {
+  label: string;
+  children: ReactNode;
+}): JSX.Element {
+  return (
+    <label className="block space-y-1 text-xs text-text-dim">
+      <span>{label}</span>
+      {children}
+    </label>
+  );
+}
+
+/**
+ * Hidden authoring mode: edit a plaintext pack, see it live in the real
+ * PuzzleEngine and test-solve it against sandboxed progress.
+ */
+export default function PuzzleStudio(): JSX.Element {
+  const [draft, setDraft] = useState<DraftPack>(() => loadDraft());
+  const [index, setIndex] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [revision, setRevision] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement | null>(null);
+
+  const selected = Math.min(index, draft.puzzles.length - 1);
+  const puzzle = draft.puzzles[selected];
+
+  // 🧪 Test-solving writes to throwaway storage while the studio is open
+  useEffect(() => {
+    enterSandbox();
+    return () => {
+      setPreviewPuzzles(null);
+      exitSandbox();
+    };
+  }, []);
+
+  // 🔄 Recompile the preview on every edit
+  useEffect(() => {
+    saveDraft(draft);
+    let cancelled = false;
+    compileDraft(draft).then((res) => {
+      if (cancelled) return;
+      setErrors(res.errors);
+      if (res.errors.length) return;
+      setPreviewPuzzles(res.puzzles);
+      setRevision((r) => r + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [draft]);
+
+  // ✏️ Edit the selected puzzle; renaming it updates references to it
+  function updatePuzzle(patch: Partial<DraftPuzzle>): void {
+    setDraft((d) => {
+      const oldId = d.puzzles[selected].id;
+      const renamed = patch.id !== undefined && patch.id !== oldId;
+      return {
+        ...d,
+        puzzles: d.puzzles.map((p, i) => {
+          if (i === selected) return { ...p, ...patch };
+          if (!renamed || !p.dependsOn?.includes(oldId)) return p;
+          return {
+            ...p,
+            dependsOn: p.dependsOn.map((dep) =>
+              dep === oldId ? (patch.id as string) : dep
+            ),
+          };
+        }),
+      };
+    });
+  }
+
+  function updateHint(i: number, patch: Partial<HintTier>): void {
+    updatePuzzle({
+      hints: puzzle.hints.map((h, j) => (j === i ? { ...h, ...patch } : h)),
+    });
+  }
+
+  function updateFile(i: number, patch: Partial<PuzzleFile>): void {
+    const files = puzzle.files ?? [];
+    updatePuzzle({
+      files: files.map((f, j) => (j === i ? { ...f, ...patch } : f)),
+    });
+  }
+
+  function toggleDependency(id: string): void {
+    const deps = puzzle.dependsOn ?? [];
+    updatePuzzle({
+      dependsOn: deps.includes(id)
+        ? deps.filter((d) => d !== id)
+        : [...deps, id],
+    });
+  }
+
+  function addPuzzle(): void {
+    setDraft((d) => ({
+      ...d,
+      puzzles: [...d.puzzles, newPuzzle(d.puzzles.map((p) => p.id))],
+    }));
+    setIndex(draft.puzzles.length);
+  }
+
+  function removePuzzle(): void {
+    if (draft.puzzles.length < 2) return;
+    setDraft((d) => ({
+      ...d,
+      puzzles: d.puzzles
+        .filter((_, i) => i !== selected)
+        .map((p) => ({
+          ...p,
+          dependsOn: p.dependsOn?.filter((dep) => dep !== puzzle.id),
+        })),
+    }));
+    setIndex(Math.max(selected - 1, 0));
+  }
+
+  // 📦 Pack files
+  function exportPack(): void {
+    const blob = new Blob([serializeDraft(draft)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${draft.name || "pack"}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+    setNotice(
+      `📤 Exported ${a.download} — drop it in packs/ and run 'npm run hash-packs'.`
+    );
+  }
+
+  async function importPack(file: File): Promise<void> {
+    const res = parseDraft(await file.text());
+    if (!res.ok) {
+      setNotice(`⚠️ ${file.name}: ${res.error}`);
+      return;
+    }
+    const pack = res.value;
+    if (!pack.puzzles.length) pack.puzzles.push(newPuzzle([]));
+    setDraft(pack);
+    setIndex(0);
+    setNotice(`📥 Imported ${file.name} (${pack.puzzles.length} puzzles)`);
+  }
+
+  function startOver(): void {
+    if (!window.confirm("Discard the current draft?")) return;
+    setDraft(newPack());
+    setIndex(0);
+    setNotice(null);
+  }
+
+  function resetProgress(): void {
+    enterSandbox();
+    setRevision((r) => r + 1);
+    setNotice("🧹 Sandbox progress cleared.");
+  }
+
+  const localIds = draft.puzzles
+    .map((p) => p.id)
+    .filter((id) => id && id !== puzzle.id);
+  const externalIds = getExternalPuzzles(draft).map((p) => p.id);
+
+  return (
+    <div className="min-h-screen bg-bg text-text font-sans">
+      {/* 🛠️ Toolbar */}
+      <header className="max-w-6xl mx-auto p-5 flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-xl font-semibold tracking-tight text-accent">
+          🛠️ Puzzle Studio
+        </h1>
+        <nav className="flex flex-wrap gap-2">
+          <button onClick={startOver} className={BUTTON}>
+            New pack
+          </button>
+          <button onClick={() => fileInput.current?.click()} className={BUTTON}>
+            Import
+          </button>
+          <button onClick={exportPack} className={BUTTON}>
+            Export
+          </button>
+          <button onClick={resetProgress} className={BUTTON}>
+            Reset progress
+          </button>
+          <button
+            onClick={() => window.location.assign(window.location.pathname)}
+            className={BUTTON}
+          >
+            Exit
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importPack(file);
+              e.target.value = "";
+            }}
+          />
+        </nav>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-5 pb-12 grid gap-6 lg:grid-cols-2">
+        {/* ✏️ Editor */}
+        <section className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2 p-3 rounded border border-surface bg-surface-alt/40">
+            <Field label="Pack name">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={INPUT}
+              />
+            </Field>
+            <Field label="Pack description">
+              <input
+                value={draft.description ?? ""}
+                onChange={(e) =>
+                  setDraft({ ...draft, description: e.target.value })
+                }
+                className={INPUT}
+              />
+            </Field>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {draft.puzzles.map((p, i) => (
+              <button
+                key={i}
+                onClick={() => setIndex(i)}
+                className={`${BUTTON} ${
+                  i === selected ? "border-accent text-accent" : ""
+                }`}
+              >
+                {p.id || "(no id)"}
+              </button>
+            ))}
+            <button onClick={addPuzzle} className={BUTTON}>
+              + Puzzle
+            </button>
+          </div>
+
+          <div className="space-y-3 p-3 rounded border border-surface bg-surface-alt/40">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <Field label="ID">
+                <input
+                  value={puzzle.id}
+                  onChange={(e) => updatePuzzle({ id: e.target.value })}
+                  className={INPUT}
+                />
+              </Field>
+              <Field label="Title">
+                <input
+                  value={puzzle.title}
+                  onChange={(e) => updatePuzzle({ title: e.target.value })}
+                  className={INPUT}
+                />
+              </Field>
+              <Field label="Type">
+                <select
+                  value={puzzle.type}
+                  onChange={(e) =>
+                    updatePuzzle({
+                      type: e.target.value as DraftPuzzle["type"],
+                    })
+                  }
+                  className={`${INPUT} bg-surface`}
+                >
+                  <option value="terminal">terminal</option>
+                  <option value="localstorage">localstorage</option>
+                  <option value="route">route</option>
+                </select>
+              </Field>
+              <Field label="Difficulty">
+                <select
+                  value={puzzle.difficulty}
+                  onChange={(e) =>
+                    updatePuzzle({
+                      difficulty: e.target.value as DraftPuzzle["difficulty"],
+                    })
+                  }
+                  className={`${INPUT} bg-surface`}
+                >
+                  <option value="easy">easy</option>
+                  <option value="medium">medium</option>
+                  <option value="hard">hard</option>
+                  <option value="secret">secret</option>
+                </select>
+              </Field>
+              <Field label="Badge name">
+                <input
+                  value={puzzle.badge ?? ""}
+                  onChange={(e) => updatePuzzle({ badge: e.target.value })}
+                  className={INPUT}
+                />
+              </Field>
+              <div className="flex items-end gap-4 text-xs text-text-dim">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={puzzle.lower ?? false}
+                    onChange={(e) => updatePuzzle({ lower: e.target.checked })}
+                  />
+                  Case-insensitive
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={puzzle.hidden ?? false}
+                    onChange={(e) => updatePuzzle({ hidden: e.target.checked })}
+                  />
+                  Hidden
+                </label>
+              </div>
+            </div>
+
+            <Field label="Short (list blurb)">
+              <input
+                value={puzzle.short}
+                onChange={(e) => updatePuzzle({ short: e.target.value })}
+                className={INPUT}
+              />
+            </Field>
+            <Field label="Description">
+              <textarea
+                rows={3}
+                value={puzzle.description ?? ""}
+                onChange={(e) => updatePuzzle({ description: e.target.value })}
+                className={INPUT}
+              />
+            </Field>
+            <Field label="Solutions (one per line, plaintext)">
+              <textarea
+                rows={2}
+                value={puzzle.solutions.join("\n")}
+                onChange={(e) =>
+                  updatePuzzle({ solutions: e.target.value.split("\n") })
+                }
+                className={`${INPUT} font-mono`}
+              />
+            </Field>
+
+            {/* 🔗 Dependencies */}
+            <div className="space-y-1 text-xs text-text-dim">
+              <span>Depends on</span>
+              {localIds.length + externalIds.length === 0 ? (
+                <p>No other puzzles yet.</p>
+              ) : (
+                <div className="max-h-32 overflow-y-auto grid gap-1 sm:grid-cols-2 p-2 rounded border border-surface">
+                  {[...localIds, ...externalIds].map((id) => (
+                    <label key={id} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={puzzle.dependsOn?.includes(id) ?? false}
+                        onChange={() => toggleDependency(id)}
+                      />
+                      <span
+                        className={
+                          localIds.includes(id) ? "text-text" : undefined
+                        }
+                      >
+                        {id}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* 💡 Hint tiers */}
+            <div className="space-y-2 text-xs text-text-dim">
+              <span>Hint tiers</span>
+              {puzzle.hints.map((h, i) => (
+                <div key={i} className="flex flex-wrap items-center gap-2">
+                  <span className="w-4">{i + 1}.</span>
+                  <input
+                    value={h.text}
+                    placeholder="Hint text"
+                    onChange={(e) => updateHint(i, { text: e.target.value })}
+                    className={`${INPUT} flex-1 w-auto min-w-[10rem]`}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    value={h.cost ?? ""}
+                    placeholder="free"
+                    onChange={(e) =>
+                      updateHint(i, {
+                        cost:
+                          e.target.value === ""
+                            ? undefined
+                            : Number(e.target.value),
+                      })
+                    }
+                    className={`${INPUT} w-16`}
+                  />
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={h.locked ?? false}
+                      onChange={(e) =>
+                        updateHint(i, { locked: e.target.checked || undefined })
+                      }
+                    />
+                    Locked
+                  </label>
+                  <button
+                    onClick={() =>
+                      updatePuzzle({
+                        hints: puzzle.hints.filter((_, j) => j !== i),
+                      })
+                    }
+                    className={BUTTON}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() =>
+                  updatePuzzle({ hints: [...puzzle.hints, { text: "" }] })
+                }
+                className={BUTTON}
+              >
+                + Hint
+              </button>
+            </div>
+
+            {/* 📁 Clue files */}
+            <div className="space-y-2 text-xs text-text-dim">
+              <span>Clue files</span>
+              {(puzzle.files ?? []).map((f, i) => (
+                <div key={i} className="space-y-1">
+                  <div className="flex gap-2">
+                    <input
+                      value={f.path}
+                      placeholder="/var/log/clue.txt"
+                      onChange={(e) => updateFile(i, { path: e.target.value })}
+                      className={`${INPUT} font-mono`}
+                    />
+                    <input
+                      value={f.mode?.toString(8) ?? ""}
+                      placeholder="644"
+                      title="Permission bits (octal)"
+                      onChange={(e) => {
+                        const mode = parseInt(e.target.value, 8);
+                        updateFile(i, {
+                          mode: Number.isNaN(mode) ? undefined : mode,
+                        });
+                      }}
+                      className={`${INPUT} w-16 font-mono`}
+                    />
+                    <button
+                      onClick={() =>
+                        updatePuzzle({
+                          files: puzzle.files?.filter((_, j) => j !== i),
+                        })
+                      }
+                      className={BUTTON}
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <textarea
+                    rows={3}
+                    value={f.content}
+                    onChange={(e) => updateFile(i, { content: e.target.value })}
+                    className={`${INPUT} font-mono`}
+                  />
+                </div>
+              ))}
+              <button
+                onClick={() =>
+                  updatePuzzle({
+                    files: [...(puzzle.files ?? []), { path: "", content: "" }],
+                  })
+                }
+                className={BUTTON}
+              >
+                + File
+              </button>
+            </div>
+
+            <button
+              onClick={removePuzzle}
+              disabled={draft.puzzles.length < 2}
+              className={`${BUTTON} text-red-400 disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              Delete puzzle
+            </button>
+          </div>
+        </section>
+
+        {/* 🧪 Live preview */}
+        <section className="space-y-3">
+          {notice && <div className="text-xs text-accent">{notice}</div>}
+          {errors.length ? (
+            <ul className="p-3 rounded border border-red-400/40 text-xs text-red-400 space-y-1">
+              {errors.map((e) => (
+                <li key={e}>✗ {e}</li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-xs text-green-400">
+              ✓ Pack is valid — test-solve it below. Progress here is sandboxed.
+            </div>
+          )}
+          {revision > 0 ? (
+            <PuzzleEngine
+              key={revision}
+              focusPuzzleId={qualifyId(draft.name, puzzle.id)}
+            />
+          ) : (
+            <p className="text-xs text-text-dim">Compiling preview…</p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
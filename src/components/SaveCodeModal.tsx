@@ -0,0 +1,151 @@
+import { useEffect, useState, type JSX } from "react";
+import QRCode from "qrcode";
+import { exportSave, importSave, saveFileName } from "../lib/savecode";
+
+export type SaveMode = "export" | "import";
+
+type Props = {
+  mode: SaveMode;
+  onClose: () => void;
+};
+
+/** Export progress as a code, file or QR code, or merge one back in. */
+export default function SaveCodeModal({ mode, onClose }: Props): JSX.Element {
+  const [code, setCode] = useState("");
+  const [qr, setQr] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (mode !== "export") return;
+    let cancelled = false;
+    (async () => {
+      const next = await exportSave();
+      if (cancelled) return;
+      setCode(next);
+      try {
+        const url = await QRCode.toDataURL(next, { margin: 1, width: 220 });
+        if (!cancelled) setQr(url);
+      } catch {
+        if (!cancelled) setNotice("⚠️ Too much progress to fit in a QR code.");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [mode]);
+
+  async function copy(): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(code);
+      setNotice("📋 Copied to clipboard");
+    } catch {
+      setNotice("⚠️ Clipboard blocked — select the code and copy it.");
+    }
+  }
+
+  function download(): void {
+    const url = URL.createObjectURL(new Blob([code], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = saveFileName();
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function load(text: string): Promise<void> {
+    const res = await importSave(text);
+    if (!res.ok) {
+      setNotice(`⚠️ ${res.error}`);
+      return;
+    }
+    const { solved, badges, skipped, locked } = res.value;
+    setNotice(
+      `💾 Merged: ${solved} new solves, ${badges} new badges (unverified)` +
+        (skipped.length ? ` · skipped ${skipped.length} unknown` : "") +
+        (locked.length ? ` · skipped ${locked.length} still locked` : "")
+    );
+  }
+
+  const button =
+    "cursor-pointer px-3 py-1 rounded border border-accent/40 text-accent hover:bg-accent/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[999] backdrop-blur-sm">
+      <div className="relative bg-surface border border-accent/30 rounded-xl shadow-[0_0_25px_var(--color-accent)] p-6 max-w-sm w-[90%] text-center font-mono text-sm animate-fadeIn">
+        {/* ❌ Close Button */}
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-3 text-text-dim hover:text-accent transition-colors text-xl"
+        >
+          ×
+        </button>
+
+        <h4 className="text-lg font-semibold text-accent mb-3">
+          {mode === "export" ? "📤 Export progress" : "📥 Import progress"}
+        </h4>
+
+        {mode === "export" ? (
+          <>
+            {qr && (
+              <img
+                src={qr}
+                alt="Save code as a QR code"
+                className="mx-auto mb-3 rounded"
+              />
+            )}
+            <textarea
+              readOnly
+              value={code || "Packing…"}
+              onFocus={(e) => e.currentTarget.select()}
+              className="w-full h-20 p-2 text-xs break-all bg-surface-alt border border-surface rounded text-text-dim resize-none"
+            />
+            <div className="flex justify-center gap-2 mt-3">
+              <button onClick={copy} disabled={!code} className={button}>
+                Copy
+              </button>
+              <button onClick={download} disabled={!code} className={button}>
+                Download
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <textarea
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Paste a save code (LAB1.…)"
+              className="w-full h-20 p-2 text-xs break-all bg-surface-alt border border-surface rounded text-text resize-none"
+            />
+            <div className="flex justify-center gap-2 mt-3">
+              <button
+                onClick={() => load(code)}
+                disabled={!code.trim()}
+                className={button}
+              >
+                Import
+              </button>
+              <label className={button}>
+                From file
+                <input
+                  type="file"
+                  accept=".txt,text/plain"
+                  className="hidden"
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (!file) return;
+                    const text = await file.text();
+                    setCode(text.trim());
+                    await load(text);
+                  }}
+                />
+              </label>
+            </div>
+          </>
+        )}
+
+        {notice && <p className="mt-3 text-xs text-text-dim">{notice}</p>}
+      </div>
+    </div>
+  );
+}
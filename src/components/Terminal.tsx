@@ -1,40 +1,152 @@
 import { useEffect, useRef, useState } from "react";
-import { checkSolution, markSolved, isSolved } from "../lib/puzzles";
+import { findCommand, isCommandUnlocked } from "../lib/commands";
+import "../lib/terminalCommands";
+import "../lib/filterCommands";
+import "../lib/fsCommands";
+import "../lib/signalCommands";
+import "../lib/cipherCommands";
+import {
+  HOME,
+  mountFs,
+  displayPath,
+  resolvePath,
+  writeFile,
+  readExecutable,
+} from "../lib/vfs";
+import { parseScript, type Argv, type Pipeline } from "../lib/shell";
+import { expandAliases } from "../lib/aliases";
+import {
+  loadHistory,
+  saveHistory,
+  mergeHistory,
+  pushHistory,
+  expandHistory,
+  searchHistory,
+} from "../lib/history";
+import { complete, formatCandidates } from "../lib/completion";
+import { recordSeen } from "../lib/stats";
+import { emit, on } from "../lib/events";
+import { formatViolation, getViolations } from "../lib/integrity";
+import {
+  MAIN_SESSION,
+  loadTranscript,
+  saveTranscript,
+  loadSettings,
+  type SessionId,
+} from "../lib/session";
+import {
+  fmt,
+  toLine,
+  stripAnsi,
+  type LineKind,
+  type Span,
+  type TermLine,
+} from "../lib/output";
+
+type Sink = (text: string, kind?: LineKind) => void;
+
+const MAX_SCRIPT_DEPTH = 8;
+
+/** Violations caught since this terminal last reported, as lines. */
+function takeViolations(shown: { current: number }): TermLine[] {
+  const fresh = getViolations().slice(shown.current);
+  shown.current += fresh.length;
+  return fresh.map((v) => toLine(formatViolation(v), "stderr"));
+}
 
 interface TerminalProps {
   visible: boolean;
-  onSolved?: (id: string) => void;
+  sessionId?: SessionId;
   onPuzzleTrigger?: (puzzleId: string) => void;
 }
 
 export default function Terminal({
   visible,
-  onSolved,
+  sessionId = MAIN_SESSION,
   onPuzzleTrigger,
 }: TerminalProps) {
-  const [lines, setLines] = useState<string[]>([]);
+  const [lines, setLines] = useState<TermLine[]>([]);
   const [input, setInput] = useState("");
   const [booting, setBooting] = useState(true);
   const logRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const [autoScroll, setAutoScroll] = useState(true);
   const [showScrollButton, setShowScrollButton] = useState(false);
+  const [cwd, setCwd] = useState(HOME);
+  const cwdRef = useRef(HOME); // read by scripts, which outpace re-renders
+  const [stored, setStored] = useState(() => loadHistory(sessionId));
+  const history = stored.entries;
+  const historyIndex = useRef<number | null>(null);
+  const draft = useRef("");
+  const lastTab = useRef<string | null>(null);
+  const shownViolations = useRef(0);
+  const [search, setSearch] = useState<{
+    query: string;
+    index: number;
+  } | null>(null);
 
-  // Boot sequence
+  // Boot sequence (or resume the previous session)
   useEffect(() => {
     if (!visible) return;
-    playSound("boot");
-    setBooting(true);
-    document.body.classList.add("matrix-flicker");
-    simulateBootSequence();
-  }, [visible]);
+    const saved = loadTranscript(sessionId);
+    if (saved.length) resumeSession(saved);
+    else simulateBootSequence();
+  }, [visible, sessionId]);
+
+  useEffect(() => {
+    if (!booting) saveTranscript(lines, sessionId);
+  }, [lines, booting, sessionId]);
 
   useEffect(() => {
-    if (!booting)
-      localStorage.setItem("terminal_history", JSON.stringify(lines));
-  }, [lines, booting]);
+    saveHistory(stored, sessionId);
+  }, [stored, sessionId]);
+
+  // 🚨 Forged progress caught by the storage layer, each reported once
+  useEffect(
+    () =>
+      on("integrity:violation", () => {
+        const fresh = takeViolations(shownViolations);
+        if (fresh.length) setLines((prev) => [...prev, ...fresh]);
+      }),
+    []
+  );
+
+  // 🔄 Commands run in this session from another browser tab
+  useEffect(
+    () =>
+      on("sync:applied", ({ key, scope }) => {
+        if (key === "history" && scope === sessionId)
+          setStored((prev) => mergeHistory(prev, loadHistory(sessionId)));
+      }),
+    [sessionId]
+  );
+
+  function resumeSession(saved: TermLine[]) {
+    mountFs();
+    setLines([
+      ...saved,
+      toLine(
+        `↻ Session resumed — ${saved.length} lines restored. Type ${fmt.cmd(
+          "reboot"
+        )} for a full boot.`,
+        "system"
+      ),
+      ...takeViolations(shownViolations),
+    ]);
+    setBooting(false);
+    setTimeout(() => inputRef.current?.focus(), 100);
+  }
 
   async function simulateBootSequence() {
+    const instant = loadSettings().skipBoot;
+    const delay = (ms: number) =>
+      instant ? Promise.resolve() : new Promise((r) => setTimeout(r, ms));
+
+    setBooting(!instant);
+    if (!instant) {
+      playSound("boot");
+      document.body.classList.add("matrix-flicker");
+    }
     setLines([]);
     const sequence = [
       "Initializing Neural Terminal v6.0...",
@@ -43,177 +155,276 @@ export default function Terminal({
       "Mounting puzzle memory core...",
       "Running diagnostics...",
       "█████████████████████████████████████████",
-      "System check: ✅ PASSED",
+      getViolations().length
+        ? "System check: 🚨 INTEGRITY VIOLATION"
+        : "System check: ✅ PASSED",
       "User: Rajkishor Murmu",
       "Status: ONLINE",
     ];
 
     for (const line of sequence) {
-      await new Promise((r) => setTimeout(r, 220));
-      setLines((prev) => [...prev, line]);
+      await delay(220);
+      if (line.startsWith("Mounting")) mountFs();
+      setLines((prev) => [...prev, toLine(line, "system")]);
     }
 
-    await new Promise((r) => setTimeout(r, 400));
+    await delay(400);
 
     setLines((prev) => [
       ...prev,
-      "💻 Boot complete.",
-      "💾 Neural memory loaded.",
-      "Type 'help' to begin exploration.",
+      toLine("💻 Boot complete.", "success"),
+      toLine("💾 Neural memory loaded.", "success"),
+      toLine("Type 'help' to begin exploration.", "system"),
     ]);
+    const fresh = takeViolations(shownViolations);
+    if (fresh.length) setLines((prev) => [...prev, ...fresh]);
 
     setBooting(false);
     document.body.classList.remove("matrix-flicker");
-    setTimeout(() => inputRef.current?.focus(), 600);
-  }
-
-  // 🎧 Sound FX
-  function playSound(type: "type" | "enter" | "boot") {
-    const file =
-      type === "type"
-        ? "/sounds/type.wav"
-        : type === "enter"
-        ? "/sounds/enter.wav"
-        : "/sounds/boot.wav";
-    const audio = new Audio(file);
-    audio.volume = type === "boot" ? 0.6 : 0.3;
-    audio.play().catch(() => {});
+    setTimeout(() => inputRef.current?.focus(), instant ? 100 : 600);
   }
 
   // Handle command submit
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (!input.trim()) return;
+    const line = search ? history[search.index] ?? "" : input;
+    setSearch(null);
+    setInput("");
+    await submitLine(line);
+  }
+
+  async function submitLine(line: string) {
+    if (!line.trim()) return;
     playSound("enter");
-    const command = input.trim();
-    addLine(`> ${command}`);
+
+    const expanded = expandHistory(line.trim(), history);
+    historyIndex.current = null;
+    if (!expanded.ok) {
+      addLine(`> ${line.trim()}`, "input");
+      addLine(expanded.error, "stderr");
+      return;
+    }
+
+    const command = expanded.line;
+    addLine(`> ${command}`, "input");
+    setStored((prev) => ({
+      ...prev,
+      entries: pushHistory(prev.entries, command),
+    }));
     await handleCommand(command);
-    setInput("");
+  }
+
+  // ⬆️ History navigation & reverse search
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.ctrlKey && e.key.toLowerCase() === "r") {
+      e.preventDefault();
+      const query = search?.query ?? "";
+      const from = search ? search.index : history.length;
+      const index = searchHistory(history, query, from);
+      setSearch({ query, index: index === -1 ? search?.index ?? -1 : index });
+      return;
+    }
+
+    if (e.key === "Tab") {
+      e.preventDefault();
+      if (search) return;
+      handleTab();
+      return;
+    }
+
+    if (search) {
+      if (e.key === "Escape" || (e.ctrlKey && e.key.toLowerCase() === "g")) {
+        e.preventDefault();
+        setSearch(null);
+      } else if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+        e.preventDefault();
+        setInput(history[search.index] ?? input);
+        setSearch(null);
+      }
+      return;
+    }
+
+    if (e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!history.length) return;
+      if (historyIndex.current === null) {
+        draft.current = input;
+        historyIndex.current = history.length;
+      }
+      historyIndex.current = Math.max(historyIndex.current - 1, 0);
+      setInput(history[historyIndex.current]);
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      if (historyIndex.current === null) return;
+      historyIndex.current += 1;
+      if (historyIndex.current >= history.length) {
+        historyIndex.current = null;
+        setInput(draft.current);
+      } else {
+        setInput(history[historyIndex.current]);
+      }
+    }
+  }
+
+  // ⇥ Tab completion (double-Tab lists candidates)
+  function handleTab() {
+    const result = complete(input, cwd);
+    if (result.line !== input) {
+      lastTab.current = null;
+      setInput(result.line);
+      return;
+    }
+    if (result.candidates.length > 1 && lastTab.current === input) {
+      addLine(`> ${input}`, "input");
+      addLine(formatCandidates(result.candidates));
+    }
+    lastTab.current = input;
+  }
+
+  function handleSearchInput(query: string) {
+    const index = searchHistory(history, query);
+    setSearch({ query, index });
   }
 
   // Main command handler
   async function handleCommand(command: string) {
-    const args = command.split(" ");
-    const cmd = args[0].toLowerCase();
-
-    switch (cmd) {
-      case "help":
-        addLine(
-          [
-            "Available commands:",
-            "  help               → Show available commands",
-            "  scan               → Run a system scan",
-            "  probe              → Probe deeper after scan",
-            "  awakening          → Unlock the final secret",
-            "  badge list         → View collected badges",
-            "  clear              → Clear terminal logs",
-          ].join("\n")
-        );
-        break;
-
-      case "clear":
-        setLines([]);
-        break;
-
-      case "badge":
-        if (args[1] === "list") {
-          const badges = JSON.parse(
-            localStorage.getItem("portfolio_badges") || "[]"
-          );
-          addLine(badges.length ? badges.join(", ") : "No badges yet.");
-        } else addLine("Usage: badge list");
-        break;
-
-      // 🧠 PUZZLE COMMANDS
-      case "scan": {
-        if (isSolved("scanPuzzle")) {
-          addLine("🔁 System already scanned.");
-          return;
-        }
-        addLine("Running system scan...");
-        await new Promise((r) => setTimeout(r, 1000));
-        addLine("Signal fragments detected: [A]CCESS_[G]RANTED");
-        const scanResult = checkSolution("scanPuzzle", "ACCESS_GRANTED");
-        if (scanResult.ok) {
-          pulseEffect("granted");
-          addLine("✅ Access granted. Fragment decrypted.");
-          markSolved("scanPuzzle");
-          onSolved?.("scanPuzzle");
-          onPuzzleTrigger?.("scanPuzzle");
-        } else {
-          pulseEffect("denied");
-          addLine("❌ Scan failed. Try again.");
-        }
-        break;
-      }
+    await execute(command, addLine, 0);
+  }
+
+  // Runs a script: steps joined by `;` / newlines, short-circuited by && / ||
+  async function execute(
+    script: string,
+    print: Sink,
+    depth: number
+  ): Promise<boolean> {
+    if (depth > MAX_SCRIPT_DEPTH) {
+      print("⚠️ Maximum script nesting reached.", "stderr");
+      return false;
+    }
+
+    const parsed = parseScript(script);
+    if (!parsed.ok) {
+      print(parsed.error, "stderr");
+      pulseEffect("denied");
+      return false;
+    }
+
+    let ok = true;
+    for (const { op, pipeline } of parsed.value) {
+      if ((op === "&&" && !ok) || (op === "||" && ok)) continue;
+      ok = await runPipeline(pipeline, print, depth);
+    }
+    return ok;
+  }
 
-      case "probe": {
-        if (!isSolved("scanPuzzle")) {
-          addLine("⚠️ Run 'scan' first.");
-          return;
-        }
-        if (isSolved("probePuzzle")) {
-          addLine("🧩 Data probe already complete.");
-          return;
-        }
-        addLine("Initiating deep data probe...");
-        await new Promise((r) => setTimeout(r, 1200));
-        addLine("Found residual echo: ROOT_SIGNAL_FOUND");
-        const probeResult = checkSolution("probePuzzle", "ROOT_SIGNAL_FOUND");
-        if (probeResult.ok) {
-          pulseEffect("granted");
-          addLine("✅ Signal reconstruction successful.");
-          markSolved("probePuzzle");
-          onSolved?.("probePuzzle");
-          onPuzzleTrigger?.("probePuzzle");
-        } else {
-          pulseEffect("denied");
-          addLine("❌ Signal corrupted.");
-        }
-        break;
+  // Runs each stage, feeding its printed output to the next one as stdin
+  async function runPipeline(
+    { stages, redirect }: Pipeline,
+    print: Sink,
+    depth: number
+  ): Promise<boolean> {
+    const expanded = expandAliases(stages);
+    if (!expanded.ok) {
+      print(expanded.error, "stderr");
+      return false;
+    }
+
+    let stdin: string | undefined;
+    let ok = true;
+
+    for (const [i, argv] of expanded.value.entries()) {
+      const captured: string[] = [];
+      const toScreen = i === expanded.value.length - 1 && !redirect;
+      // Only stdout is piped; errors and status lines always reach the screen
+      const stagePrint: Sink = (text, kind = "stdout") => {
+        if (toScreen || kind !== "stdout") print(text, kind);
+        else captured.push(text);
+      };
+      ok = await runCommand(argv, stdin, stagePrint, depth);
+      stdin = stripAnsi(captured.join("\n"));
+    }
+
+    if (redirect) {
+      const written = writeFile(
+        resolvePath(cwdRef.current, redirect.path),
+        stdin ?? "",
+        redirect.append
+      );
+      if (!written.ok) {
+        print(`sh: ${written.error}`, "stderr");
+        return false;
       }
+    }
+    return ok;
+  }
 
-      case "awakening": {
-        if (!isSolved("probePuzzle") || !isSolved("localKeyPuzzle")) {
-          addLine("⚠️ System not ready. Complete prior sequences.");
-          return;
-        }
-        if (isSolved("neoEaster")) {
-          addLine("🧠 You've already awakened, The One.");
-          return;
-        }
-        addLine("⚡ Initiating awakening protocol...");
-        await new Promise((r) => setTimeout(r, 1500));
-        addLine("Transcending local space...");
-        const awakenResult = checkSolution("neoEaster", "THERE_IS_NO_SPOON");
-        if (awakenResult.ok) {
-          pulseEffect("granted");
-          addLine("🧠 You are The One. Reality bends to your will.");
-          markSolved("neoEaster");
-          onSolved?.("neoEaster");
-          onPuzzleTrigger?.("neoEaster");
-        } else {
-          pulseEffect("denied");
-          addLine("❌ Awakening failed. Try again.");
-        }
-        break;
+  async function runCommand(
+    [name, ...args]: Argv,
+    stdin: string | undefined,
+    print: Sink,
+    depth: number
+  ): Promise<boolean> {
+    // ./script.sh and other paths run executable files from the VFS
+    if (name.includes("/")) {
+      const script = readExecutable(resolvePath(cwdRef.current, name));
+      if (!script.ok) {
+        print(`sh: ${script.error}`, "stderr");
+        return false;
       }
+      return execute(script.value, print, depth + 1);
+    }
 
-      default:
-        addLine(`Unknown command: ${cmd}`);
-        pulseEffect("denied");
+    const cmd = findCommand(name);
+    if (!cmd) {
+      print(`Unknown command: ${name.toLowerCase()}`, "stderr");
+      pulseEffect("denied");
+      return false;
+    }
+    if (!isCommandUnlocked(cmd)) {
+      print(cmd.lockedMessage ?? `⚠️ '${cmd.name}' is locked.`, "stderr");
+      return false;
     }
 
-    // ✅ Emit terminal command for PuzzleEngine
-    window.dispatchEvent(
-      new CustomEvent("terminal-command", {
-        detail: { command, timestamp: Date.now() },
-      })
-    );
+    const status = await cmd.run({
+      raw: [name, ...args].join(" "),
+      args,
+      stdin,
+      print,
+      clear: () => setLines([]),
+      pulse: pulseEffect,
+      trigger: (id) => {
+        recordSeen(id);
+        onPuzzleTrigger?.(id);
+      },
+      sleep: (ms) => new Promise((r) => setTimeout(r, ms)),
+      sessionId,
+      cwd: cwdRef.current,
+      setCwd: changeCwd,
+      history,
+      clearHistory: () => setStored({ entries: [], cleared: Date.now() }),
+      reboot: simulateBootSequence,
+      exec: (script) => execute(script, print, depth + 1),
+    });
+
+    // ✅ Announce the command (PuzzleEngine's terminal unlock listens)
+    const ok = status?.ok ?? true;
+    emit("command:executed", {
+      command: [name, ...args].join(" "),
+      sessionId,
+      ok,
+      at: Date.now(),
+    });
+
+    return ok;
+  }
+
+  function changeCwd(path: string) {
+    cwdRef.current = path;
+    setCwd(path);
   }
 
-  function addLine(text: string) {
-    setLines((prev) => [...prev, text]);
+  function addLine(text: string, kind: LineKind = "stdout") {
+    setLines((prev) => [...prev, toLine(text, kind)]);
   }
 
   function pulseEffect(type: "granted" | "denied") {
@@ -280,9 +491,7 @@ export default function Terminal({
           </div>
         ) : (
           lines.map((line, i) => (
-            <div key={i} className="whitespace-pre-wrap">
-              {line}
-            </div>
+            <OutputLine key={i} line={line} onCommand={submitLine} />
           ))
         )}
       </div>
@@ -293,18 +502,36 @@ export default function Terminal({
           onSubmit={handleSubmit}
           className="flex items-center gap-2 p-2 sm:p-3 border-t border-surface-alt bg-surface/50"
         >
-          <span className="text-accent">$</span>
+          <span className="text-accent">
+            {search
+              ? `(reverse-i-search)\`${search.query}':`
+              : `${displayPath(cwd)} $`}
+          </span>
           <input
             ref={inputRef}
-            value={input}
+            value={search ? search.query : input}
             onChange={(e) => {
               playSound("type");
+              if (search) {
+                handleSearchInput(e.target.value);
+                return;
+              }
+              historyIndex.current = null;
+              lastTab.current = null;
               setInput(e.target.value);
             }}
-            className="flex-1 bg-transparent border-none outline-none text-text caret-accent text-[0.85rem] sm:text-sm"
-            placeholder="Type a command..."
+            onKeyDown={handleKeyDown}
+            className={`bg-transparent border-none outline-none text-text caret-accent text-[0.85rem] sm:text-sm ${
+              search ? "w-24" : "flex-1"
+            }`}
+            placeholder={search ? "" : "Type a command..."}
             autoFocus
           />
+          {search && (
+            <span className="flex-1 truncate text-text-dim text-[0.85rem] sm:text-sm">
+              {search.index >= 0 ? history[search.index] : ""}
+            </span>
+          )}
         </form>
       )}
 
@@ -324,3 +551,85 @@ export default function Terminal({
     </div>
   );
 }
+
+// 🎧 Sound FX
+function playSound(type: "type" | "enter" | "boot") {
+  const file =
+    type === "type"
+      ? "/sounds/type.wav"
+      : type === "enter"
+      ? "/sounds/enter.wav"
+      : "/sounds/boot.wav";
+  const audio = new Audio(file);
+  audio.volume = type === "boot" ? 0.6 : 0.3;
+  audio.play().catch(() => {});
+}
+
+// 🖍️ Line rendering (colors come from theme tokens, see index.css)
+function OutputLine({
+  line,
+  onCommand,
+}: {
+  line: TermLine;
+  onCommand: (command: string) => void;
+}) {
+  return (
+    <div className={`whitespace-pre-wrap term-${line.kind}`}>
+      {line.spans.map((span, i) => (
+        <OutputSpan key={i} span={span} onCommand={onCommand} />
+      ))}
+    </div>
+  );
+}
+
+function OutputSpan({
+  span,
+  onCommand,
+}: {
+  span: Span;
+  onCommand: (command: string) => void;
+}) {
+  const className = [
+    span.color && `ansi-${span.color}`,
+    span.bold && "font-bold",
+    span.dim && "opacity-60",
+    span.underline && "underline",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  if (span.command) {
+    const command = span.command;
+    return (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          onCommand(command);
+        }}
+        className={`cursor-pointer underline decoration-dotted text-accent hover:opacity-80 ${className}`}
+      >
+        {span.text}
+      </button>
+    );
+  }
+
+  if (span.href) {
+    return (
+      <a
+        href={span.href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={`underline text-accent hover:opacity-80 ${className}`}
+      >
+        {span.text}
+      </a>
+    );
+  }
+
+  return className ? (
+    <span className={className}>{span.text}</span>
+  ) : (
+    <>{span.text}</>
+  );
+}
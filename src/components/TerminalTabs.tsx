@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import Terminal from "./Terminal";
+import { clearStoredHistory } from "../lib/history";
+import {
+  MAIN_SESSION,
+  loadTabs,
+  saveTabs,
+  clearTranscript,
+  type SessionId,
+} from "../lib/session";
+
+interface TerminalTabsProps {
+  visible: boolean;
+  onPuzzleTrigger?: (puzzleId: string) => void;
+}
+
+export default function TerminalTabs({
+  visible,
+  onPuzzleTrigger,
+}: TerminalTabsProps) {
+  const [tabs, setTabs] = useState<SessionId[]>(() => loadTabs());
+  const [active, setActive] = useState<SessionId>(MAIN_SESSION);
+
+  useEffect(() => {
+    saveTabs(tabs);
+  }, [tabs]);
+
+  function openTab() {
+    const id = `tty-${Date.now().toString(36)}`;
+    setTabs((prev) => [...prev, id]);
+    setActive(id);
+  }
+
+  function closeTab(id: SessionId) {
+    if (id === MAIN_SESSION) return;
+    clearTranscript(id);
+    clearStoredHistory(id);
+    const next = tabs.filter((t) => t !== id);
+    if (active === id) setActive(next[Math.max(tabs.indexOf(id) - 1, 0)]);
+    setTabs(next);
+  }
+
+  // ⌨️ Ctrl+Shift+T opens a new session
+  useEffect(() => {
+    if (!visible) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === "t") {
+        e.preventDefault();
+        openTab();
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [visible]);
+
+  if (!visible) return null;
+
+  return (
+    <div className="space-y-2">
+      {/* Tab bar */}
+      <div className="flex items-center gap-1 overflow-x-auto font-mono text-xs">
+        {tabs.map((id, i) => (
+          <div
+            key={id}
+            className={`flex items-center gap-1 rounded-t-md border px-2 py-1 transition-all ${
+              id === active
+                ? "border-accent/40 bg-surface text-accent"
+                : "border-surface bg-surface-alt/50 text-text-dim hover:text-text"
+            }`}
+          >
+            <button onClick={() => setActive(id)} className="cursor-pointer">
+              tty{i + 1}
+            </button>
+            {id !== MAIN_SESSION && (
+              <button
+                onClick={() => closeTab(id)}
+                className="cursor-pointer text-text-dim hover:text-accent"
+                aria-label={`Close tty${i + 1}`}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={openTab}
+          className="cursor-pointer rounded-md border border-surface px-2 py-1 text-text-dim hover:bg-surface-alt hover:text-accent transition-all"
+          title="New session (Ctrl+Shift+T)"
+        >
+          +
+        </button>
+      </div>
+
+      {/* Sessions stay mounted so background tabs keep their state */}
+      {tabs.map((id) => (
+        <div key={id} className={id === active ? "" : "hidden"}>
+          <Terminal
+            visible={visible}
+            sessionId={id}
+            onPuzzleTrigger={onPuzzleTrigger}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import type { JSX } from "react";
+import {
+  getUnlockDepths,
+  getUnlockState,
+  type Puzzle,
+  type UnlockState,
+} from "../lib/puzzles";
+
+interface UnlockGraphProps {
+  puzzles: Puzzle[];
+  selectedId?: string;
+  onSelect: (p: Puzzle) => void;
+}
+
+const NODE_W = 150;
+const NODE_H = 44;
+const COL_GAP = 56;
+const ROW_GAP = 16;
+const PAD = 8;
+
+const STATE_STYLE: Record<UnlockState, { className: string; label: string }> = {
+  locked: { className: "text-text-dim", label: "Locked" },
+  unlocked: { className: "text-yellow-400", label: "Unlocked" },
+  solved: { className: "text-green-400", label: "Solved" },
+};
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1) + "…" : text;
+}
+
+/** Puzzles laid out in columns by prerequisite depth, edges pointing right. */
+export default function UnlockGraph({
+  puzzles,
+  selectedId,
+  onSelect,
+}: UnlockGraphProps): JSX.Element {
+  const depths = getUnlockDepths();
+  const columns: Puzzle[][] = [];
+  puzzles.forEach((p) => {
+    const depth = depths.get(p.id) ?? 0;
+    (columns[depth] ??= []).push(p);
+  });
+
+  const pos = new Map<string, { x: number; y: number }>();
+  columns.forEach((col, c) =>
+    col?.forEach((p, r) =>
+      pos.set(p.id, {
+        x: PAD + c * (NODE_W + COL_GAP),
+        y: PAD + r * (NODE_H + ROW_GAP),
+      })
+    )
+  );
+
+  const rows = Math.max(1, ...columns.map((col) => col?.length ?? 0));
+  const width = PAD * 2 + columns.length * (NODE_W + COL_GAP) - COL_GAP;
+  const height = PAD * 2 + rows * (NODE_H + ROW_GAP) - ROW_GAP;
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <svg
+          viewBox={`0 0 ${Math.max(width, NODE_W)} ${height}`}
+          width={Math.max(width, NODE_W)}
+          height={height}
+          className="max-w-none"
+          role="img"
+          aria-label="Puzzle unlock graph"
+        >
+          {/* 🔗 Edges */}
+          {puzzles.flatMap((p) =>
+            (p.dependsOn ?? []).map((d) => {
+              const from = pos.get(d);
+              const to = pos.get(p.id);
+              if (!from || !to) return null;
+              const x1 = from.x + NODE_W;
+              const y1 = from.y + NODE_H / 2;
+              const x2 = to.x;
+              const y2 = to.y + NODE_H / 2;
+              const mid = (x1 + x2) / 2;
+              return (
+                <path
+                  key={`${d}->${p.id}`}
+                  d={`M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2},${y2}`}
+                  className={`fill-none stroke-current ${
+                    STATE_STYLE[getUnlockState(d)].className
+                  }`}
+                  strokeWidth={1.5}
+                  strokeOpacity={0.6}
+                />
+              );
+            })
+          )}
+
+          {/* 🧩 Nodes */}
+          {puzzles.map((p) => {
+            const at = pos.get(p.id);
+            if (!at) return null;
+            const state = getUnlockState(p.id);
+            const selected = p.id === selectedId;
+            return (
+              <g
+                key={p.id}
+                transform={`translate(${at.x},${at.y})`}
+                role="button"
+                tabIndex={0}
+                onClick={() => onSelect(p)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === " ") {
+                    e.preventDefault();
+                    onSelect(p);
+                  }
+                }}
+                className={`cursor-pointer focus:outline-none ${STATE_STYLE[state].className}`}
+              >
+                <title>{`${p.title} — ${STATE_STYLE[state].label}`}</title>
+                <rect
+                  width={NODE_W}
+                  height={NODE_H}
+                  rx={6}
+                  className="fill-current stroke-current"
+                  fillOpacity={selected ? 0.2 : 0.08}
+                  strokeWidth={selected ? 2 : 1}
+                />
+                <text
+                  x={10}
+                  y={18}
+                  className="fill-current text-xs font-medium"
+                >
+                  {state === "locked" ? "🔒 " : state === "solved" ? "✓ " : ""}
+                  {truncate(p.title, 18)}
+                </text>
+                <text
+                  x={10}
+                  y={34}
+                  className="fill-current text-[10px]"
+                  fillOpacity={0.7}
+                >
+                  {truncate(p.id, 24)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {/* 🗺️ Legend */}
+      <div className="flex gap-3 mt-3 text-xs">
+        {Object.values(STATE_STYLE).map(({ className, label }) => (
+          <span key={label} className={className}>
+            ● {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
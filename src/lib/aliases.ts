@@ -0,0 +1,55 @@
+// src/lib/aliases.ts
+// 🔗 Shell aliases for the Hacker Lab terminal, persisted per visitor
+
+import { parseScript, type Argv, type ParseResult } from "./shell";
+import { read, write } from "./storage";
+
+export type Aliases = Record<string, string>;
+
+export function loadAliases(): Aliases {
+  return read("aliases") ?? {};
+}
+
+export function saveAliases(aliases: Aliases): void {
+  write("aliases", aliases);
+}
+
+/**
+ * Replaces aliased command names in each stage. An alias may expand to a
+ * pipeline; remaining arguments are appended to its last stage, as in bash.
+ * Each alias is expanded at most once per stage to avoid loops.
+ */
+export function expandAliases(
+  stages: Argv[],
+  aliases: Aliases = loadAliases()
+): ParseResult<Argv[]> {
+  const out: Argv[] = [];
+
+  for (const stage of stages) {
+    let current: Argv[] = [stage];
+    const seen = new Set<string>();
+
+    while (Object.hasOwn(aliases, current[0][0]) && !seen.has(current[0][0])) {
+      const [name, ...args] = current[0];
+      seen.add(name);
+      const parsed = parseScript(aliases[name]);
+      if (!parsed.ok) return parsed;
+      if (parsed.value.length !== 1 || parsed.value[0].pipeline.redirect)
+        return {
+          ok: false,
+          error: `alias ${name}: only pipelines are supported`,
+        };
+      const expanded = parsed.value[0].pipeline.stages.map((s) => [...s]);
+      expanded[expanded.length - 1].push(...args);
+      current = [...expanded, ...current.slice(1)];
+    }
+
+    out.push(...current);
+  }
+
+  return { ok: true, value: out };
+}
+
+export function formatAlias(name: string, value: string): string {
+  return `alias ${name}='${value.replace(/'/g, "'\\''")}'`;
+}
@@ -0,0 +1,160 @@
+// src/lib/cipherCommands.ts
+// 🔏 Encoding and cipher toolkit: takes text as arguments or from a pipe
+
+import {
+  registerCommand,
+  type CommandContext,
+  type CommandStatus,
+} from "./commands";
+import { parseArgs } from "./shell";
+import {
+  base64Decode,
+  base64Encode,
+  caesar,
+  hexDecode,
+  hexEncode,
+  morseDecode,
+  morseEncode,
+  rot13,
+  sha256Hex,
+  xorDecode,
+  xorEncode,
+  type CipherResult,
+} from "./ciphers";
+
+/** Positional text wins over stdin; with neither, prints the usage. */
+function readText(
+  { stdin, print }: CommandContext,
+  positionals: string[],
+  usage: string
+): string | null {
+  if (positionals.length) return positionals.join(" ");
+  if (stdin !== undefined) return stdin;
+  print(`Usage: ${usage}`, "stderr");
+  return null;
+}
+
+function emit(
+  { print }: CommandContext,
+  name: string,
+  result: CipherResult
+): CommandStatus {
+  if (!result.ok) {
+    print(`${name}: ${result.error}`, "stderr");
+    return { ok: false };
+  }
+  print(result.value);
+  return { ok: true };
+}
+
+/** Registers an encode/decode pair toggled with `-d`. */
+function registerCodec(
+  name: string,
+  description: string,
+  encode: (text: string) => CipherResult,
+  decode: (text: string) => CipherResult
+): void {
+  const usage = `${name} [-d] [text...]`;
+  registerCommand({
+    name,
+    usage,
+    description,
+    run: (ctx) => {
+      const { flags, positionals } = parseArgs(ctx.args);
+      const text = readText(ctx, positionals, usage);
+      if (text === null) return { ok: false };
+      return emit(ctx, name, (flags.d ? decode : encode)(text));
+    },
+  });
+}
+
+registerCodec(
+  "base64",
+  "Base64-encode text, or decode with -d",
+  (text) => ({ ok: true, value: base64Encode(text) }),
+  base64Decode
+);
+
+registerCodec(
+  "hex",
+  "Hex-encode text, or decode with -d",
+  (text) => ({ ok: true, value: hexEncode(text) }),
+  hexDecode
+);
+
+registerCodec(
+  "morse",
+  "Translate text to Morse code, or back with -d",
+  morseEncode,
+  morseDecode
+);
+
+registerCommand({
+  name: "rot13",
+  usage: "rot13 [text...]",
+  description: "Rotate letters by 13 (its own inverse)",
+  run: (ctx) => {
+    const text = readText(ctx, ctx.args, "rot13 [text...]");
+    if (text === null) return { ok: false };
+    ctx.print(rot13(text));
+  },
+});
+
+registerCommand({
+  name: "caesar",
+  usage: "caesar -k N [-d] [text...]",
+  description: "Shift letters by N, or back with -d",
+  run: (ctx) => {
+    const usage = "caesar -k N [-d] [text...]";
+    const { flags, positionals } = parseArgs(ctx.args, ["k"]);
+    const shift = typeof flags.k === "string" ? parseInt(flags.k, 10) : NaN;
+    if (Number.isNaN(shift)) {
+      ctx.print(`Usage: ${usage}`, "stderr");
+      return { ok: false };
+    }
+    const text = readText(ctx, positionals, usage);
+    if (text === null) return { ok: false };
+    ctx.print(caesar(text, flags.d ? -shift : shift));
+  },
+});
+
+registerCommand({
+  name: "xor",
+  usage: "xor -k key [-d] [text...]",
+  description: "XOR text with a repeating key (hex out), or decode hex with -d",
+  run: (ctx) => {
+    const usage = "xor -k key [-d] [text...]";
+    const { flags, positionals } = parseArgs(ctx.args, ["k"]);
+    if (typeof flags.k !== "string" || !flags.k) {
+      ctx.print(`Usage: ${usage}`, "stderr");
+      return { ok: false };
+    }
+    const key = flags.k;
+    const text = readText(ctx, positionals, usage);
+    if (text === null) return { ok: false };
+    return emit(
+      ctx,
+      "xor",
+      flags.d ? xorDecode(text, key) : { ok: true, value: xorEncode(text, key) }
+    );
+  },
+});
+
+registerCommand({
+  name: "sha256",
+  usage: "sha256 [text...]",
+  description: "Print the SHA-256 digest of text",
+  run: async (ctx) => {
+    const { flags, positionals } = parseArgs(ctx.args);
+    if (flags.d) {
+      ctx.print(
+        "sha256: hashes are one-way — there is nothing to decode",
+        "stderr"
+      );
+      return { ok: false };
+    }
+    const text = readText(ctx, positionals, "sha256 [text...]");
+    if (text === null) return { ok: false };
+    ctx.print(await sha256Hex(text));
+  },
+});
@@ -0,0 +1,258 @@
+// src/lib/ciphers.ts
+// 🔏 Encoding and cipher primitives behind the toolkit commands
+
+export type CipherResult =
+  | { ok: true; value: string }
+  | { ok: false; error: string };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder("utf-8", { fatal: true });
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  const clean = hex.replace(/\s+/g, "");
+  if (clean.length % 2 || /[^0-9a-f]/i.test(clean)) return null;
+  return Uint8Array.from(clean.match(/../g) ?? [], (h) => parseInt(h, 16));
+}
+
+function bytesToText(bytes: Uint8Array): CipherResult {
+  try {
+    return { ok: true, value: decoder.decode(bytes) };
+  } catch {
+    return { ok: false, error: "output is not valid UTF-8 text" };
+  }
+}
+
+//
+// ──────────────────────────────────────────────
+// 🔤 Encodings
+// ──────────────────────────────────────────────
+//
+
+export function base64Encode(text: string): string {
+  return btoa(String.fromCharCode(...encoder.encode(text)));
+}
+
+export function base64Decode(b64: string): CipherResult {
+  try {
+    const binary = atob(b64.replace(/\s+/g, ""));
+    return bytesToText(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+  } catch {
+    return { ok: false, error: "invalid base64 input" };
+  }
+}
+
+export function hexEncode(text: string): string {
+  return bytesToHex(encoder.encode(text));
+}
+
+export function hexDecode(hex: string): CipherResult {
+  const bytes = hexToBytes(hex);
+  return bytes ? bytesToText(bytes) : { ok: false, error: "invalid hex input" };
+}
+
+const MORSE: Record<string, string> = {
+  A: ".-",
+  B: "-...",
+  C: "-.-.",
+  D: "-..",
+  E: ".",
+  F: "..-.",
+  G: "--.",
+  H: "....",
+  I: "..",
+  J: ".---",
+  K: "-.-",
+  L: ".-..",
+  M: "--",
+  N: "-.",
+  O: "---",
+  P: ".--.",
+  Q: "--.-",
+  R: ".-.",
+  S: "...",
+  T: "-",
+  U: "..-",
+  V: "...-",
+  W: ".--",
+  X: "-..-",
+  Y: "-.--",
+  Z: "--..",
+  "0": "-----",
+  "1": ".----",
+  "2": "..---",
+  "3": "...--",
+  "4": "....-",
+  "5": ".....",
+  "6": "-....",
+  "7": "--...",
+  "8": "---..",
+  "9": "----.",
+  ".": ".-.-.-",
+  ",": "--..--",
+  "?": "..--..",
+  "!": "-.-.--",
+  "=": "-...-",
+  "-": "-....-",
+  _: "..--.-",
+};
+const FROM_MORSE = Object.fromEntries(
+  Object.entries(MORSE).map(([ch, code]) => [code, ch])
+);
+
+/** Letters are separated by spaces and words by ` / `, one line per line. */
+export function morseEncode(text: string): CipherResult {
+  const unknown = [...text.toUpperCase()].find(
+    (c) => !MORSE[c] && !/\s/.test(c)
+  );
+  if (unknown) return { ok: false, error: `no morse code for '${unknown}'` };
+  const value = text
+    .split("\n")
+    .map((line) =>
+      line
+        .toUpperCase()
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((word) => [...word].map((c) => MORSE[c]).join(" "))
+        .join(" / ")
+    )
+    .join("\n");
+  return { ok: true, value };
+}
+
+export function morseDecode(morse: string): CipherResult {
+  const lines: string[] = [];
+  for (const line of morse.split("\n")) {
+    const words: string[] = [];
+    for (const word of line.trim().split(/\s*\/\s*/)) {
+      const codes = word.split(/\s+/).filter(Boolean);
+      const bad = codes.find((code) => !FROM_MORSE[code]);
+      if (bad) return { ok: false, error: `unknown morse code '${bad}'` };
+      words.push(codes.map((code) => FROM_MORSE[code]).join(""));
+    }
+    lines.push(words.join(" "));
+  }
+  return { ok: true, value: lines.join("\n") };
+}
+
+//
+// ──────────────────────────────────────────────
+// 🔐 Ciphers & hashes
+// ──────────────────────────────────────────────
+//
+
+/** Rotates ASCII letters by `shift` (negative to decode), keeping case. */
+export function caesar(text: string, shift: number): string {
+  const k = ((shift % 26) + 26) % 26;
+  return text.replace(/[a-z]/gi, (c) => {
+    const base = c <= "Z" ? 65 : 97;
+    return String.fromCharCode(((c.charCodeAt(0) - base + k) % 26) + base);
+  });
+}
+
+export const rot13 = (text: string) => caesar(text, 13);
+
+/** XORs UTF-8 bytes with a repeating key; the ciphertext is hex. */
+export function xorEncode(text: string, key: string): string {
+  const k = encoder.encode(key);
+  return bytesToHex(encoder.encode(text).map((b, i) => b ^ k[i % k.length]));
+}
+
+export function xorDecode(hex: string, key: string): CipherResult {
+  const bytes = hexToBytes(hex);
+  if (!bytes) return { ok: false, error: "invalid hex input" };
+  const k = encoder.encode(key);
+  return bytesToText(bytes.map((b, i) => b ^ k[i % k.length]));
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(text));
+  return bytesToHex(new Uint8Array(digest));
+}
+
+// SHA-256 round constants: fractional parts of the first 64 primes' cube roots
+const K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/**
+ * SHA-256 without WebCrypto, whose digests are async only. Used where a
+ * hash has to fit a synchronous call, like signing storage writes.
+ */
+function sha256(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array((((data.length + 8) >> 6) + 1) << 6);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(padded.length - 4, data.length << 3);
+
+  const h = Uint32Array.from([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  for (let off = 0; off < padded.length; off += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(off + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const t1 = (hh + s1 + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      [hh, g, f, e, d, c, b, a] = [
+        g,
+        f,
+        e,
+        (d + t1) | 0,
+        c,
+        b,
+        a,
+        (t1 + t2) | 0,
+      ];
+    }
+    [a, b, c, d, e, f, g, hh].forEach((x, i) => (h[i] += x));
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((x, i) => outView.setUint32(i * 4, x));
+  return out;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+/** HMAC-SHA-256 as hex, synchronously (see `sha256`). */
+export function hmacSha256Hex(key: string, message: string): string {
+  let k: Uint8Array = encoder.encode(key);
+  if (k.length > 64) k = sha256(k);
+  const pad = (x: number) =>
+    Uint8Array.from({ length: 64 }, (_, i) => (k[i] ?? 0) ^ x);
+  const inner = sha256(concat(pad(0x36), encoder.encode(message)));
+  return bytesToHex(sha256(concat(pad(0x5c), inner)));
+}
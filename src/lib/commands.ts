@@ -0,0 +1,132 @@
+// src/lib/commands.ts
+// ⌨️ Command registry for the Hacker Lab terminal
+
+import { isSolved, type PuzzleId } from "./puzzles";
+import { fmt, type LineKind } from "./output";
+import type { SessionId } from "./session";
+
+export type CommandContext = {
+  /** Full command line as typed. */
+  raw: string;
+  /** Arguments after the command name. */
+  args: string[];
+  /** Output of the previous pipeline stage, if this command was piped into. */
+  stdin?: string;
+  /** Prints a line; text may carry ANSI styling (see `fmt` in output.ts). */
+  print: (text: string, kind?: LineKind) => void;
+  clear: () => void;
+  pulse: (type: "granted" | "denied") => void;
+  /** Mark the puzzle the visitor is currently working on. */
+  trigger: (id: PuzzleId) => void;
+  sleep: (ms: number) => Promise<void>;
+  /** Terminal tab the command runs in. */
+  sessionId: SessionId;
+  /** Current working directory in the virtual filesystem. */
+  cwd: string;
+  setCwd: (path: string) => void;
+  /** Commands previously entered in this terminal, oldest first. */
+  history: string[];
+  clearHistory: () => void;
+  /** Wipes the transcript and runs the boot sequence again. */
+  reboot: () => void;
+  /** Runs a script (`;`, newlines, `&&`, `||`) in this terminal. */
+  exec: (script: string) => Promise<boolean>;
+};
+
+/**
+ * Outcome of a command, used by `&&` / `||`. Same shape as the result of
+ * `checkSolution`, so puzzle commands can return it directly. Returning
+ * nothing counts as success.
+ */
+export type CommandStatus = { ok: boolean; message?: string };
+
+export type Command = {
+  name: string;
+  aliases?: string[];
+  usage: string;
+  description: string;
+  /** Kept out of `help` until its dependencies are solved. */
+  hidden?: boolean;
+  /** Puzzles that must be solved before the command can run. */
+  dependsOn?: PuzzleId[];
+  /** Printed when the command is run before it is unlocked. */
+  lockedMessage?: string;
+  /**
+   * Candidates for the word being typed, given the arguments before it.
+   * Results are filtered by prefix, so returning extra entries is fine.
+   */
+  complete?: (args: string[], partial: string, cwd: string) => string[];
+  run: (
+    ctx: CommandContext
+  ) => CommandStatus | void | Promise<CommandStatus | void>;
+};
+
+const registry = new Map<string, Command>();
+
+//
+// ──────────────────────────────────────────────
+// 🧠 Core API
+// ──────────────────────────────────────────────
+//
+
+/** Adds (or replaces) a command. Returns a function that removes it again. */
+export function registerCommand(cmd: Command): () => void {
+  registry.set(cmd.name.toLowerCase(), cmd);
+  return () => {
+    if (registry.get(cmd.name.toLowerCase()) === cmd)
+      registry.delete(cmd.name.toLowerCase());
+  };
+}
+
+export function findCommand(name: string): Command | undefined {
+  const key = name.toLowerCase();
+  const direct = registry.get(key);
+  if (direct) return direct;
+  for (const cmd of registry.values()) {
+    if (cmd.aliases?.some((a) => a.toLowerCase() === key)) return cmd;
+  }
+  return undefined;
+}
+
+export function isCommandUnlocked(cmd: Command): boolean {
+  return (cmd.dependsOn ?? []).every((id) => isSolved(id));
+}
+
+/** Commands a visitor is allowed to see right now, sorted by name. */
+export function getCommands(includeHidden = false): Command[] {
+  return [...registry.values()]
+    .filter((c) => includeHidden || !c.hidden || isCommandUnlocked(c))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+//
+// ──────────────────────────────────────────────
+// 📖 Help
+// ──────────────────────────────────────────────
+//
+
+export function formatHelp(name?: string): string {
+  if (name) {
+    const cmd = findCommand(name);
+    if (!cmd || (cmd.hidden && !isCommandUnlocked(cmd)))
+      return `No help entry for '${name}'.`;
+    const lines = [`${cmd.usage}`, `  ${cmd.description}`];
+    if (cmd.aliases?.length) lines.push(`  Aliases: ${cmd.aliases.join(", ")}`);
+    if (!isCommandUnlocked(cmd))
+      lines.push(`  Requires: ${(cmd.dependsOn ?? []).join(", ")}`);
+    return lines.join("\n");
+  }
+
+  const cmds = getCommands();
+  const width = Math.max(...cmds.map((c) => c.usage.length), 0) + 2;
+  return [
+    "Available commands:",
+    ...cmds.map(
+      (c) =>
+        `  ${fmt.cmd(c.usage, c.name)}${" ".repeat(width - c.usage.length)} → ${
+          c.description
+        }`
+    ),
+    "Type 'help <command>' for details.",
+  ].join("\n");
+}
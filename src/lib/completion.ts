@@ -0,0 +1,80 @@
+// src/lib/completion.ts
+// ⇥ Tab completion for the Hacker Lab terminal
+
+import { findCommand, getCommands, isCommandUnlocked } from "./commands";
+import { getPuzzles, isUnlocked } from "./puzzles";
+
+export type Completion = {
+  /** Input line after completion (unchanged when nothing could be added). */
+  line: string;
+  /** Every candidate matching the word under the cursor. */
+  candidates: string[];
+};
+
+/** Command names and aliases a visitor may currently run. */
+export function completeCommandNames(): string[] {
+  return getCommands()
+    .filter(isCommandUnlocked)
+    .flatMap((c) => [c.name, ...(c.aliases ?? [])]);
+}
+
+/** Puzzle IDs that are visible, including hidden ones whose deps are solved. */
+export function completePuzzleIds(): string[] {
+  return getPuzzles(true)
+    .filter((p) => !p.hidden || isUnlocked(p.id))
+    .map((p) => p.id);
+}
+
+export function complete(line: string, cwd: string): Completion {
+  // Only the command after the last |, ;, && or || is being typed
+  const stage = line.split(/\|\|?|&&|;/).pop() ?? line;
+  const words = stage.trimStart().split(/\s+/);
+  const partial = words.pop() ?? "";
+
+  let pool: string[] = [];
+  if (words.length === 0) {
+    pool = completeCommandNames();
+  } else {
+    const cmd = findCommand(words[0]);
+    if (cmd?.complete && isCommandUnlocked(cmd))
+      pool = cmd.complete(words.slice(1), partial, cwd);
+  }
+
+  const candidates = [...new Set(pool)]
+    .filter((c) => c.startsWith(partial))
+    .sort();
+  if (candidates.length === 0) return { line, candidates };
+
+  const head = line.slice(0, line.length - partial.length);
+  if (candidates.length === 1) {
+    // Directories keep the cursor inside the path so it can be extended
+    const [only] = candidates;
+    return { line: head + only + (only.endsWith("/") ? "" : " "), candidates };
+  }
+  return { line: `${head}${commonPrefix(candidates)}`, candidates };
+}
+
+/** Lays candidates out in columns the way bash lists ambiguous completions. */
+export function formatCandidates(candidates: string[], width = 64): string {
+  const col = Math.max(...candidates.map((c) => c.length)) + 2;
+  const perRow = Math.max(Math.floor(width / col), 1);
+  const rows: string[] = [];
+  for (let i = 0; i < candidates.length; i += perRow) {
+    rows.push(
+      candidates
+        .slice(i, i + perRow)
+        .map((c) => c.padEnd(col))
+        .join("")
+        .trimEnd()
+    );
+  }
+  return rows.join("\n");
+}
+
+function commonPrefix(words: string[]): string {
+  let prefix = words[0];
+  for (const w of words.slice(1)) {
+    while (!w.startsWith(prefix)) prefix = prefix.slice(0, -1);
+  }
+  return prefix;
+}
@@ -0,0 +1,298 @@
+// src/lib/daily.ts
+// 📅 Date-seeded daily challenge: one procedurally generated puzzle per day
+
+import {
+  findPuzzle,
+  getImported,
+  hashAnswer,
+  isSolved,
+  registerPack,
+  type Difficulty,
+  type HintTier,
+  type PuzzleId,
+} from "./puzzles";
+import { qualifyId } from "./packs";
+import { caesar } from "./ciphers";
+import { read, write } from "./storage";
+
+export const DAILY_PACK = "daily";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+//
+// ──────────────────────────────────────────────
+// 🎲 Seeded randomness
+// ──────────────────────────────────────────────
+//
+
+export type Rng = () => number;
+
+/** 32-bit FNV-1a hash, used to turn a date string into a seed. */
+export function seedFromString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Mulberry32: small, fast and identical in every browser. */
+export function mulberry32(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const int = (rng: Rng, min: number, max: number) =>
+  min + Math.floor(rng() * (max - min + 1));
+const pick = <T>(rng: Rng, items: T[]): T =>
+  items[int(rng, 0, items.length - 1)];
+
+function shuffle<T>(rng: Rng, items: T[]): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = int(rng, 0, i);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** UTC calendar day, so everyone shares the same puzzle on the same day. */
+export function dateKey(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+//
+// ──────────────────────────────────────────────
+// 🧩 Generators
+// ──────────────────────────────────────────────
+//
+
+type Generated = {
+  kind: string;
+  difficulty: Difficulty;
+  short: string;
+  description: string;
+  answer: string;
+  hints: HintTier[];
+  clue: string; // written to the daily file in the virtual filesystem
+};
+
+const WORDS = [
+  "SIGNAL",
+  "FIREWALL",
+  "KERNEL",
+  "PAYLOAD",
+  "TERMINAL",
+  "PROTOCOL",
+  "BACKDOOR",
+  "DAEMON",
+  "ROOTKIT",
+  "SANDBOX",
+  "PACKET",
+  "MAINFRAME",
+  "OVERFLOW",
+];
+const ADJECTIVES = ["GHOST", "SILENT", "NEON", "BROKEN", "HIDDEN", "ROGUE"];
+const NOUNS = ["PROTOCOL", "MACHINE", "SIGNAL", "ORACLE", "CIRCUIT", "NODE"];
+const VERBS = ["AWAKENS", "RETURNS", "LISTENS", "DREAMS", "WATCHES"];
+
+function cipherPuzzle(rng: Rng): Generated {
+  const word = pick(rng, WORDS);
+  const shift = int(rng, 1, 25);
+  const encoded = caesar(word, shift);
+  return {
+    kind: "Cipher",
+    difficulty: "easy",
+    short: `Intercepted transmission: ${encoded}`,
+    description: `An intercepted transmission reads '${encoded}'. Every letter was rotated through the alphabet by the same unknown amount. Recover the original word.`,
+    answer: word,
+    hints: [
+      {
+        text: "It's a Caesar cipher — there are only 25 shifts to try.",
+        cost: 5,
+      },
+      { text: `The letters were shifted forward by ${shift}.`, cost: 10 },
+    ],
+    clue: `[intercept] ${encoded}\n[intercept] rotation: unknown (1-25)`,
+  };
+}
+
+function fragmentPuzzle(rng: Rng): Generated {
+  const words = [pick(rng, ADJECTIVES), pick(rng, NOUNS), pick(rng, VERBS)];
+  const fragments = words.map(
+    (w, i) => `FRAGMENT[${i + 1}/${words.length}] = ${w}`
+  );
+  const noise = Array.from(
+    { length: 6 },
+    () => `sector 0x${int(rng, 0, 0xffff).toString(16).padStart(4, "0")} ... ok`
+  );
+  const lines = shuffle(rng, [...fragments, ...noise]);
+  return {
+    kind: "Fragments",
+    difficulty: "medium",
+    short: "Three fragments are scattered through today's dump.",
+    description:
+      "Today's memory dump hides three tagged fragments among the noise. Put them in order and join them with '_'.",
+    answer: words.join("_"),
+    hints: [
+      {
+        text: "grep the dump for FRAGMENT and sort by the [n/3] index.",
+        cost: 5,
+      },
+      { text: `The first fragment is ${words[0]}.`, cost: 15 },
+    ],
+    clue: lines.join("\n"),
+  };
+}
+
+function sequencePuzzle(rng: Rng): Generated {
+  const kinds = [
+    () => {
+      const a = int(rng, 1, 20);
+      const d = int(rng, 3, 12);
+      return {
+        terms: Array.from({ length: 6 }, (_, i) => a + i * d),
+        rule: `add ${d} each time`,
+      };
+    },
+    () => {
+      const a = int(rng, 1, 5);
+      const r = int(rng, 2, 4);
+      return {
+        terms: Array.from({ length: 6 }, (_, i) => a * r ** i),
+        rule: `multiply by ${r} each time`,
+      };
+    },
+    () => {
+      const terms = [int(rng, 1, 5), int(rng, 2, 8)];
+      while (terms.length < 6)
+        terms.push(terms[terms.length - 1] + terms[terms.length - 2]);
+      return { terms, rule: "each term is the sum of the two before it" };
+    },
+    () => {
+      const k = int(rng, 1, 9);
+      return {
+        terms: Array.from({ length: 6 }, (_, i) => (i + 1) ** 2 + k),
+        rule: `square numbers plus ${k}`,
+      };
+    },
+  ];
+  const { terms, rule } = pick(rng, kinds)();
+  const shown = terms.slice(0, 5).join(", ");
+  return {
+    kind: "Sequence",
+    difficulty: "hard",
+    short: `What comes next: ${shown}, ?`,
+    description: `A beacon is counting in a pattern: ${shown}, … Submit the next number.`,
+    answer: String(terms[5]),
+    hints: [
+      { text: "Look at the differences between neighbouring terms.", cost: 10 },
+      { text: `Rule: ${rule}.`, cost: 20 },
+    ],
+    clue: `[beacon] ${shown}, ...\n[beacon] next pulse pending`,
+  };
+}
+
+const GENERATORS = [cipherPuzzle, fragmentPuzzle, sequencePuzzle];
+
+/** The challenge for a given day; pure and deterministic. */
+export function generateDaily(day = dateKey()): Generated & { day: string } {
+  const rng = mulberry32(seedFromString(`hacker-lab:${day}`));
+  return { ...pick(rng, GENERATORS)(rng), day };
+}
+
+//
+// ──────────────────────────────────────────────
+// 📌 Registration & streaks
+// ──────────────────────────────────────────────
+//
+
+export function dailyPuzzleId(day = dateKey()): PuzzleId {
+  return qualifyId(DAILY_PACK, day);
+}
+
+/** True for the ID of today's or an earlier day's challenge. */
+export function isDailyId(id: PuzzleId, today = dateKey()): boolean {
+  const day = id.slice(DAILY_PACK.length + 1);
+  return (
+    id === dailyPuzzleId(day) && /^\d{4}-\d{2}-\d{2}$/.test(day) && day <= today
+  );
+}
+
+/**
+ * Registers today's challenge as a one-puzzle `daily` pack, hashing the
+ * answer like authored packs. Its clue is seeded under /var/daily.
+ */
+export async function registerDailyChallenge(day = dateKey()): Promise<void> {
+  if (findPuzzle(dailyPuzzleId(day))) return;
+  const g = generateDaily(day);
+  const salt = `${DAILY_PACK}:${day}`;
+  registerPack(
+    {
+      name: DAILY_PACK,
+      description: "Procedurally generated, one puzzle per day.",
+      puzzles: [
+        {
+          id: day,
+          title: `Daily ${g.kind} · ${day}`,
+          short: g.short,
+          type: "terminal",
+          difficulty: g.difficulty,
+          salt,
+          solutions: [await hashAnswer(salt, g.answer.toLowerCase())],
+          lower: true,
+          hints: g.hints,
+          description: `${g.description} Clue file: /var/daily/${day}.txt`,
+          files: [{ path: `/var/daily/${day}.txt`, content: g.clue }],
+        },
+      ],
+    },
+    `daily:${day}`
+  );
+}
+
+/** Longest run of consecutive days among the daily challenges in `ids`. */
+export function longestStreak(ids: PuzzleId[]): number {
+  const days = new Set(
+    ids.filter((id) => isDailyId(id)).map((id) => Date.parse(id.slice(-10)))
+  );
+  let best = 0;
+  for (const day of days) {
+    if (days.has(day - DAY_MS)) continue; // not where a run starts
+    let run = 1;
+    while (days.has(day + run * DAY_MS)) run++;
+    best = Math.max(best, run);
+  }
+  return best;
+}
+
+export type Streak = { current: number; best: number; solvedToday: boolean };
+
+/**
+ * Consecutive days with a solved daily, counting back from today (or from
+ * yesterday while today's is still open). The best streak is remembered.
+ */
+export function getStreak(today = new Date()): Streak {
+  const day = (offset: number) =>
+    dateKey(new Date(today.getTime() - offset * DAY_MS));
+  const solvedToday = isSolved(dailyPuzzleId(day(0)));
+
+  let current = 0;
+  for (let i = solvedToday ? 0 : 1; isSolved(dailyPuzzleId(day(i))); i++)
+    current++;
+
+  const best = Math.max(current, read("dailyBest") ?? 0);
+  write("dailyBest", best);
+  return {
+    current,
+    best: Math.max(best, getImported().dailyBest),
+    solvedToday,
+  };
+}
@@ -0,0 +1,57 @@
+// src/lib/events.ts
+// 📣 Typed event bus for game events, replacing window CustomEvents
+
+import type { PuzzleId } from "./puzzles";
+import type { SessionId } from "./session";
+import type { SyncKey } from "./sync";
+import type { Violation } from "./integrity";
+
+/** Every game event and the payload it carries. */
+export type GameEvents = {
+  "puzzle:solved": { id: PuzzleId; points: number };
+  "badge:earned": { id: PuzzleId };
+  "hint:unlocked": { id: PuzzleId; tier: number };
+  "command:executed": {
+    command: string;
+    sessionId: SessionId;
+    ok: boolean;
+    at: number; // epoch ms
+  };
+  "wallet:changed": { balance: number };
+  "sync:applied": { key: SyncKey; scope?: string }; // another tab wrote it
+  "packs:registered": { source: string; puzzles: PuzzleId[] };
+  "integrity:violation": Violation;
+};
+
+export type GameEvent = keyof GameEvents;
+
+type Handler<E extends GameEvent> = (payload: GameEvents[E]) => void;
+
+const handlers = new Map<GameEvent, Set<Handler<never>>>();
+
+/** Subscribes to one event. Returns an unsubscribe. */
+export function on<E extends GameEvent>(
+  event: E,
+  handler: Handler<E>
+): () => void {
+  const set = handlers.get(event) ?? new Set();
+  handlers.set(event, set);
+  set.add(handler);
+  return () => {
+    set.delete(handler);
+  };
+}
+
+/** Calls every handler; one failing handler doesn't stop the others. */
+export function emit<E extends GameEvent>(
+  event: E,
+  payload: GameEvents[E]
+): void {
+  for (const handler of handlers.get(event) ?? []) {
+    try {
+      (handler as Handler<E>)(payload);
+    } catch (e) {
+      console.error(`[events] '${event}' handler failed:`, e);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+// src/lib/filterCommands.ts
+// 🔧 Text filters that work on any command's output through pipes
+
+import { registerCommand, type CommandContext } from "./commands";
+import { parseArgs } from "./shell";
+
+function readInput(
+  { stdin, print }: CommandContext,
+  usage: string
+): string[] | null {
+  if (stdin === undefined) {
+    print(`Usage: ${usage}`, "stderr");
+    return null;
+  }
+  return stdin === "" ? [] : stdin.split("\n");
+}
+
+function lineCount(
+  flags: Record<string, string | true>,
+  positionals: string[]
+): number {
+  const legacy = positionals.find((p) => /^-\d+$/.test(p));
+  const raw = flags.n ?? legacy?.slice(1);
+  const n = typeof raw === "string" ? parseInt(raw, 10) : NaN;
+  return Number.isNaN(n) ? 10 : Math.max(n, 0);
+}
+
+registerCommand({
+  name: "echo",
+  usage: "echo [text...]",
+  description: "Print text",
+  run: ({ args, print }) => print(args.join(" ")),
+});
+
+registerCommand({
+  name: "grep",
+  usage: "... | grep [-i] [-v] [-n] [-c] <pattern>",
+  description: "Keep lines matching a pattern",
+  run: (ctx) => {
+    const { flags, positionals } = parseArgs(ctx.args);
+    const pattern = positionals[0];
+    if (pattern === undefined) {
+      ctx.print("Usage: grep [-i] [-v] [-n] [-c] <pattern>", "stderr");
+      return { ok: false };
+    }
+    const input = readInput(ctx, "... | grep <pattern>");
+    if (!input) return { ok: false };
+
+    let re: RegExp;
+    try {
+      re = new RegExp(pattern, flags.i ? "i" : "");
+    } catch {
+      const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      re = new RegExp(escaped, flags.i ? "i" : "");
+    }
+
+    const matches = input
+      .map((line, i) => ({ line, no: i + 1 }))
+      .filter(({ line }) => re.test(line) !== Boolean(flags.v));
+
+    if (flags.c) ctx.print(String(matches.length));
+    else if (matches.length)
+      ctx.print(
+        matches
+          .map(({ line, no }) => (flags.n ? `${no}:${line}` : line))
+          .join("\n")
+      );
+    // Like grep, "no match" is a failure so `grep x && ...` short-circuits
+    return { ok: matches.length > 0 };
+  },
+});
+
+registerCommand({
+  name: "head",
+  usage: "... | head [-n N]",
+  description: "Keep the first N lines",
+  run: (ctx) => {
+    const { flags, positionals } = parseArgs(ctx.args, ["n"]);
+    const input = readInput(ctx, "... | head [-n N]");
+    if (!input) return { ok: false };
+    const out = input.slice(0, lineCount(flags, positionals));
+    if (out.length) ctx.print(out.join("\n"));
+  },
+});
+
+registerCommand({
+  name: "tail",
+  usage: "... | tail [-n N]",
+  description: "Keep the last N lines",
+  run: (ctx) => {
+    const { flags, positionals } = parseArgs(ctx.args, ["n"]);
+    const input = readInput(ctx, "... | tail [-n N]");
+    if (!input) return { ok: false };
+    const n = lineCount(flags, positionals);
+    const out = n === 0 ? [] : input.slice(-n);
+    if (out.length) ctx.print(out.join("\n"));
+  },
+});
+
+registerCommand({
+  name: "wc",
+  usage: "... | wc [-l] [-w] [-c]",
+  description: "Count lines, words and characters",
+  run: (ctx) => {
+    const { flags } = parseArgs(ctx.args);
+    const input = readInput(ctx, "... | wc [-l] [-w] [-c]");
+    if (!input) return { ok: false };
+    const text = input.join("\n");
+    const counts = {
+      l: input.length,
+      w: text.split(/\s+/).filter(Boolean).length,
+      c: text.length,
+    };
+    const selected = (["l", "w", "c"] as const).filter((k) => flags[k]);
+    const keys = selected.length ? selected : (["l", "w", "c"] as const);
+    ctx.print(keys.map((k) => String(counts[k]).padStart(7)).join(" "));
+  },
+});
+
+registerCommand({
+  name: "sort",
+  usage: "... | sort [-r] [-n] [-u]",
+  description: "Sort lines",
+  run: (ctx) => {
+    const { flags } = parseArgs(ctx.args);
+    const input = readInput(ctx, "... | sort [-r] [-n] [-u]");
+    if (!input) return { ok: false };
+    const sorted = [...input].sort((a, b) =>
+      flags.n
+        ? parseFloat(a) - parseFloat(b) || a.localeCompare(b)
+        : a.localeCompare(b)
+    );
+    const out = flags.u
+      ? sorted.filter((line, i) => i === 0 || line !== sorted[i - 1])
+      : sorted;
+    if (flags.r) out.reverse();
+    if (out.length) ctx.print(out.join("\n"));
+  },
+});
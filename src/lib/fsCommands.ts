@@ -0,0 +1,135 @@
+// src/lib/fsCommands.ts
+// 📂 Filesystem commands backed by the virtual filesystem
+
+import { registerCommand } from "./commands";
+import { parseArgs } from "./shell";
+import {
+  HOME,
+  resolvePath,
+  listDir,
+  readFile,
+  changeDir,
+  chmod,
+  findPaths,
+  formatMode,
+  completePath,
+} from "./vfs";
+
+const pathCompleter = (_args: string[], partial: string, cwd: string) =>
+  completePath(cwd, partial);
+
+registerCommand({
+  name: "pwd",
+  usage: "pwd",
+  description: "Print working directory",
+  run: ({ cwd, print }) => print(cwd),
+});
+
+registerCommand({
+  name: "ls",
+  aliases: ["dir"],
+  usage: "ls [-a] [-l] [path...]",
+  description: "List directory contents",
+  complete: pathCompleter,
+  run: ({ args, cwd, print }) => {
+    const { flags, positionals } = parseArgs(args);
+    const targets = positionals.length ? positionals : ["."];
+    let ok = true;
+
+    targets.forEach((target, i) => {
+      const listing = listDir(resolvePath(cwd, target), Boolean(flags.a));
+      if (!listing.ok) {
+        print(`ls: ${listing.error}`, "stderr");
+        ok = false;
+        return;
+      }
+      if (targets.length > 1) print(`${i ? "\n" : ""}${target}:`);
+      const names = listing.value.map(({ name, node }) =>
+        flags.l
+          ? `${formatMode(node)}  ${name}${node.type === "dir" ? "/" : ""}`
+          : `${name}${node.type === "dir" ? "/" : ""}`
+      );
+      if (names.length) print(names.join(flags.l ? "\n" : "  "));
+    });
+    return { ok };
+  },
+});
+
+registerCommand({
+  name: "cd",
+  usage: "cd [path]",
+  description: "Change directory",
+  complete: (args, partial, cwd) =>
+    args.length === 0
+      ? completePath(cwd, partial).filter((p) => p.endsWith("/"))
+      : [],
+  run: ({ args, cwd, setCwd, print }) => {
+    const result = changeDir(resolvePath(cwd, args[0] ?? HOME));
+    if (result.ok) setCwd(result.value);
+    else print(`cd: ${result.error}`, "stderr");
+    return result;
+  },
+});
+
+registerCommand({
+  name: "cat",
+  usage: "cat <file...>",
+  description: "Print file contents",
+  complete: pathCompleter,
+  run: ({ args, cwd, stdin, print }) => {
+    if (args.length === 0) {
+      if (stdin !== undefined) print(stdin);
+      else print("Usage: cat <file...>", "stderr");
+      return { ok: stdin !== undefined };
+    }
+    const results = args.map((file) => readFile(resolvePath(cwd, file)));
+    results.forEach((result) => {
+      if (result.ok) print(result.value);
+      else print(`cat: ${result.error}`, "stderr");
+    });
+    return { ok: results.every((r) => r.ok) };
+  },
+});
+
+registerCommand({
+  name: "find",
+  usage: "find [path] [-name pattern]",
+  description: "Search for files",
+  complete: pathCompleter,
+  run: ({ args, cwd, print }) => {
+    const { flags, positionals } = parseArgs(args, ["name"]);
+    const pattern = typeof flags.name === "string" ? flags.name : undefined;
+    const start = positionals[0] ?? ".";
+    const result = findPaths(resolvePath(cwd, start), pattern);
+    if (!result.ok) {
+      print(`find: ${result.error}`, "stderr");
+      return { ok: false };
+    }
+    // Echo paths relative to how the start point was typed, like find does
+    const base = resolvePath(cwd, start);
+    const out = result.value.map((p) =>
+      p === base
+        ? start
+        : start.replace(/\/$/, "") + p.slice(base === "/" ? 0 : base.length)
+    );
+    if (out.length) print(out.join("\n"));
+  },
+});
+
+registerCommand({
+  name: "chmod",
+  usage: "chmod <mode> <path>",
+  description: "Change file permissions (e.g. 644, u+r)",
+  complete: (args, partial, cwd) =>
+    args.length === 1 ? completePath(cwd, partial) : [],
+  run: ({ args, cwd, print }) => {
+    const [mode, target] = args;
+    if (!mode || !target) {
+      print("Usage: chmod <mode> <path>", "stderr");
+      return { ok: false };
+    }
+    const result = chmod(resolvePath(cwd, target), mode);
+    if (!result.ok) print(`chmod: ${result.error}`, "stderr");
+    return result;
+  },
+});
@@ -0,0 +1,140 @@
+// src/lib/history.ts
+// 📜 Shell-style input history for the Hacker Lab terminal
+
+import { MAIN_SESSION, type SessionId } from "./session";
+import { read, remove, write } from "./storage";
+
+const MAX_ENTRIES = 200;
+
+/**
+ * One session's history as stored. `cleared` is when `history -c` last ran
+ * (epoch ms, 0 if never), so a clear in one tab beats older commands that
+ * another tab still holds.
+ */
+export type SessionHistory = { entries: string[]; cleared: number };
+
+export function loadHistory(id: SessionId = MAIN_SESSION): SessionHistory {
+  const stored = read("history", id);
+  const entries = Array.isArray(stored?.entries) ? stored.entries : [];
+  const cleared = Number(stored?.cleared);
+  return {
+    entries: entries.filter((x) => typeof x === "string"),
+    cleared: Number.isFinite(cleared) && cleared > 0 ? cleared : 0,
+  };
+}
+
+export function saveHistory(
+  history: SessionHistory,
+  id: SessionId = MAIN_SESSION
+): void {
+  write(
+    "history",
+    { ...history, entries: history.entries.slice(-MAX_ENTRIES) },
+    id
+  );
+}
+
+export function clearStoredHistory(id: SessionId): void {
+  remove("history", id);
+}
+
+/** Appends a command, skipping immediate duplicates like bash's ignoredups. */
+export function pushHistory(history: string[], command: string): string[] {
+  if (history[history.length - 1] === command) return history;
+  return [...history, command].slice(-MAX_ENTRIES);
+}
+
+/** True if every entry of `sub` appears in `list`, in order. */
+function isSubsequence(sub: string[], list: string[]): boolean {
+  let i = 0;
+  for (const entry of list) if (entry === sub[i]) i++;
+  return i >= sub.length;
+}
+
+/**
+ * True if `a` already has every command in `b`. A full `a` may have lost
+ * `b`'s oldest entries to trimming, so `b` can also line up from `a[0]`.
+ */
+function covers(a: string[], b: string[]): boolean {
+  if (isSubsequence(b, a)) return true;
+  if (a.length < MAX_ENTRIES) return false;
+  return b.some((c, k) => k > 0 && c === a[0] && isSubsequence(b.slice(k), a));
+}
+
+/**
+ * Merges one session's history as written by two browser tabs. The later
+ * clear wins outright; its commands all came after it. Otherwise a copy
+ * that already has all of the other's commands wins, or both tabs' new
+ * commands follow the shared prefix. The result doesn't depend on argument
+ * order, so every tab settles on the same list. Returns `a` itself when
+ * nothing changes.
+ */
+export function mergeHistory(
+  a: SessionHistory,
+  b: SessionHistory
+): SessionHistory {
+  if (a.cleared !== b.cleared) return a.cleared > b.cleared ? a : b;
+  const entries = mergeEntries(a.entries, b.entries);
+  if (entries === a.entries) return a;
+  return entries === b.entries ? b : { entries, cleared: a.cleared };
+}
+
+function mergeEntries(a: string[], b: string[]): string[] {
+  const aHasAll = covers(a, b);
+  const bHasAll = covers(b, a);
+  if (aHasAll !== bHasAll) return aHasAll ? a : b;
+  if (aHasAll) return JSON.stringify(a) >= JSON.stringify(b) ? a : b;
+
+  let shared = 0;
+  while (shared < a.length && a[shared] === b[shared]) shared++;
+  const tails = [a.slice(shared), b.slice(shared)].sort((p, q) =>
+    JSON.stringify(p) < JSON.stringify(q) ? -1 : 1
+  );
+  return [...a.slice(0, shared), ...tails.flat()].slice(-MAX_ENTRIES);
+}
+
+/**
+ * Expands `!!`, `!n`, `!-n` and `!prefix` references against the history.
+ * Entries are numbered from 1, matching the `history` command output.
+ */
+export function expandHistory(
+  line: string,
+  history: string[]
+): { ok: true; line: string } | { ok: false; error: string } {
+  let error: string | null = null;
+  const expanded = line.replace(/!(!|-?\d+|[A-Za-z][\w-]*)/g, (ref, token) => {
+    let entry: string | undefined;
+    if (token === "!") {
+      entry = history[history.length - 1];
+    } else if (/^-\d+$/.test(token)) {
+      entry = history[history.length + Number(token)];
+    } else if (/^\d+$/.test(token)) {
+      entry = history[Number(token) - 1];
+    } else {
+      entry = [...history].reverse().find((h) => h.startsWith(token));
+    }
+    if (entry === undefined) error ??= `${ref}: event not found`;
+    return entry ?? ref;
+  });
+  return error ? { ok: false, error } : { ok: true, line: expanded };
+}
+
+/** Finds the most recent entry before `from` containing `query`. */
+export function searchHistory(
+  history: string[],
+  query: string,
+  from = history.length
+): number {
+  for (let i = Math.min(from, history.length) - 1; i >= 0; i--) {
+    if (history[i].includes(query)) return i;
+  }
+  return -1;
+}
+
+export function formatHistory(history: string[], count?: number): string {
+  const start = count ? Math.max(history.length - count, 0) : 0;
+  return history
+    .slice(start)
+    .map((cmd, i) => `${String(start + i + 1).padStart(5)}  ${cmd}`)
+    .join("\n");
+}
@@ -0,0 +1,160 @@
+// src/lib/integrity.ts
+// 🛡️ Tamper evidence: every stored progress entry carries its own HMAC
+
+import { hmacSha256Hex } from "./ciphers";
+import { emit } from "./events";
+import type { StorageKey } from "./storage";
+
+/**
+ * How a signed record sits in storage: the value, one MAC per entry and a
+ * seal over the whole record.
+ */
+export type Signed = { data: unknown; mac: string[]; seal?: string };
+
+export type Violation = {
+  key: StorageKey;
+  entries: string[]; // JSON of each rejected entry
+  restored: boolean; // rolled back to the record's last good copy
+  at: number; // epoch ms
+};
+
+const MAC_LENGTH = 16; // hex digits kept per entry
+
+type Obj = Record<string, unknown>;
+
+const isObj = (x: unknown): x is Obj =>
+  typeof x === "object" && x !== null && !Array.isArray(x);
+
+export function isSigned(x: unknown): x is Signed {
+  return isObj(x) && "data" in x && Array.isArray(x.mac);
+}
+
+/** A fresh per-install signing secret. */
+export function newSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Records are re-verified on every read, so MACs are cached
+const cache = new Map<string, string>();
+const MAX_CACHE = 4096;
+
+function mac(secret: string, key: StorageKey, message: string): string {
+  const input = `${secret}\n${key}\n${message}`;
+  let out = cache.get(input);
+  if (out === undefined) {
+    if (cache.size >= MAX_CACHE) cache.clear();
+    out = hmacSha256Hex(secret, `${key}\n${message}`).slice(0, MAC_LENGTH);
+    cache.set(input, out);
+  }
+  return out;
+}
+
+/** Array items and object properties are signed one by one. */
+function entriesOf(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map((v) => JSON.stringify(v));
+  if (isObj(value)) return Object.entries(value).map((e) => JSON.stringify(e));
+  return [JSON.stringify(value)];
+}
+
+/** One MAC over every entry in order, so copied or dropped ones show. */
+function sealOf(secret: string, key: StorageKey, entries: string[]): string {
+  // No entry's JSON starts with "record", so seals never pass as entry MACs
+  return mac(secret, key, `record\n${entries.join("\n")}`);
+}
+
+export function sign(secret: string, key: StorageKey, value: unknown): Signed {
+  const entries = entriesOf(value);
+  return {
+    data: value,
+    mac: entries.map((e) => mac(secret, key, e)),
+    seal: sealOf(secret, key, entries),
+  };
+}
+
+type Verified = { value: unknown; tampered: string[]; intact: boolean };
+
+/**
+ * Keeps the entries whose MAC checks out and lists the rest. `intact` says
+ * the record is exactly as signed, with no valid entry copied, dropped or
+ * moved either. A record that isn't signed at all (edited by hand into
+ * plain JSON) fails as a whole.
+ */
+export function verify(
+  secret: string,
+  key: StorageKey,
+  stored: unknown
+): Verified {
+  if (!isSigned(stored))
+    return { value: null, tampered: entriesOf(stored), intact: false };
+  const valid = new Set(stored.mac);
+  const ok = (entry: string) => valid.has(mac(secret, key, entry));
+  const { data } = stored;
+  const intact = stored.seal === sealOf(secret, key, entriesOf(data));
+
+  if (Array.isArray(data)) {
+    const [keep, tampered] = [[], []] as [unknown[], string[]];
+    for (const v of data) {
+      const json = JSON.stringify(v);
+      if (ok(json)) keep.push(v);
+      else tampered.push(json);
+    }
+    return { value: keep, tampered, intact };
+  }
+  if (isObj(data)) {
+    const [keep, tampered] = [[], []] as [[string, unknown][], string[]];
+    for (const entry of Object.entries(data)) {
+      const json = JSON.stringify(entry);
+      if (ok(json)) keep.push(entry);
+      else tampered.push(json);
+    }
+    return { value: Object.fromEntries(keep), tampered, intact };
+  }
+  const json = JSON.stringify(data);
+  return ok(json)
+    ? { value: data, tampered: [], intact }
+    : { value: null, tampered: [json], intact };
+}
+
+//
+// ──────────────────────────────────────────────
+// 🚨 Cheat detector
+// ──────────────────────────────────────────────
+//
+
+const violations: Violation[] = [];
+
+/**
+ * Logs a record the storage layer refused to trust: forged entries it
+ * dropped, or a record it `restored` from the last good copy.
+ */
+export function reportViolation(
+  key: StorageKey,
+  entries: string[],
+  restored = false
+): void {
+  const violation = { key, entries, restored, at: Date.now() };
+  violations.push(violation);
+  console.warn(
+    `[integrity] '${key}' ${restored ? "rolled back" : "entries dropped"}:`,
+    entries
+  );
+  emit("integrity:violation", violation);
+}
+
+/** Everything caught since the page loaded, oldest first. */
+export function getViolations(): Violation[] {
+  return violations;
+}
+
+/** What the terminal prints when forged progress turns up. */
+export function formatViolation({ key, entries, restored }: Violation): string {
+  const n = entries.length;
+  if (restored)
+    return `🚨 INTEGRITY VIOLATION — '${key}' was altered and rolled back to its last good copy. The system remembers what you really did.`;
+  if (!n)
+    return `🚨 INTEGRITY VIOLATION — '${key}' was altered and no good copy survived to restore it.`;
+  return `🚨 INTEGRITY VIOLATION — ${n} forged ${
+    n === 1 ? "record" : "records"
+  } in '${key}' quarantined; the rest verified and were kept.`;
+}
@@ -0,0 +1,141 @@
+// src/lib/output.ts
+// 🎨 Typed terminal output: line kinds, styled spans and an ANSI-escape subset
+
+export type LineKind = "input" | "stdout" | "stderr" | "success" | "system";
+
+export type AnsiColor =
+  | "black"
+  | "red"
+  | "green"
+  | "yellow"
+  | "blue"
+  | "magenta"
+  | "cyan"
+  | "white";
+
+export type Span = {
+  text: string;
+  color?: AnsiColor;
+  bold?: boolean;
+  dim?: boolean;
+  underline?: boolean;
+  /** External link, opened in a new tab. */
+  href?: string;
+  /** Command to run when the span is clicked. */
+  command?: string;
+};
+
+export type TermLine = { kind: LineKind; spans: Span[] };
+
+const COLORS: AnsiColor[] = [
+  "black",
+  "red",
+  "green",
+  "yellow",
+  "blue",
+  "magenta",
+  "cyan",
+  "white",
+];
+
+const ESC = "\x1b";
+const CMD_SCHEME = "cmd:";
+
+// Matches SGR sequences (ESC[...m) and OSC 8 hyperlinks (ESC]8;;target ESC\)
+// eslint-disable-next-line no-control-regex
+const ANSI_RE = /\x1b\[([\d;]*)m|\x1b\]8;;([^\x1b]*)\x1b\\/g;
+
+//
+// ──────────────────────────────────────────────
+// 🧠 Parsing
+// ──────────────────────────────────────────────
+//
+
+/**
+ * Splits text into styled spans. Understands SGR codes 0/1/2/4/22/24,
+ * foreground colors 30–37, 90–97 and 39, and OSC 8 hyperlinks. Link targets
+ * starting with `cmd:` become clickable commands.
+ */
+export function parseAnsi(text: string): Span[] {
+  const spans: Span[] = [];
+  let style: Omit<Span, "text"> = {};
+  let last = 0;
+
+  const push = (chunk: string) => {
+    if (chunk) spans.push({ ...style, text: chunk });
+  };
+
+  for (const m of text.matchAll(ANSI_RE)) {
+    push(text.slice(last, m.index));
+    last = m.index + m[0].length;
+
+    if (m[2] !== undefined) {
+      const target = m[2];
+      const next = { ...style };
+      delete next.href;
+      delete next.command;
+      if (target.startsWith(CMD_SCHEME))
+        next.command = target.slice(CMD_SCHEME.length);
+      else if (target) next.href = target;
+      style = next;
+      continue;
+    }
+
+    const codes = m[1] ? m[1].split(";").map(Number) : [0];
+    for (const code of codes) {
+      if (code === 0) style = { href: style.href, command: style.command };
+      else if (code === 1) style = { ...style, bold: true };
+      else if (code === 2) style = { ...style, dim: true };
+      else if (code === 4) style = { ...style, underline: true };
+      else if (code === 22) style = { ...style, bold: false, dim: false };
+      else if (code === 24) style = { ...style, underline: false };
+      else if (code === 39) style = { ...style, color: undefined };
+      else if (code >= 30 && code <= 37)
+        style = { ...style, color: COLORS[code - 30] };
+      else if (code >= 90 && code <= 97)
+        style = { ...style, color: COLORS[code - 90], bold: true };
+    }
+  }
+
+  push(text.slice(last));
+  return spans;
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_RE, "");
+}
+
+export function toLine(text: string, kind: LineKind = "stdout"): TermLine {
+  return { kind, spans: parseAnsi(text) };
+}
+
+export function lineText(line: TermLine): string {
+  return line.spans.map((s) => s.text).join("");
+}
+
+//
+// ──────────────────────────────────────────────
+// ✍️ Builders for command handlers
+// ──────────────────────────────────────────────
+//
+
+const sgr = (open: number, close: number) => (text: string) =>
+  `${ESC}[${open}m${text}${ESC}[${close}m`;
+
+const osc8 = (target: string, text: string) =>
+  `${ESC}]8;;${target}${ESC}\\${text}${ESC}]8;;${ESC}\\`;
+
+export const fmt = {
+  bold: sgr(1, 22),
+  dim: sgr(2, 22),
+  underline: sgr(4, 24),
+  red: sgr(31, 39),
+  green: sgr(32, 39),
+  yellow: sgr(33, 39),
+  blue: sgr(34, 39),
+  magenta: sgr(35, 39),
+  cyan: sgr(36, 39),
+  link: (text: string, href: string) => osc8(href, text),
+  /** Clickable text that runs `command` (defaults to the text itself). */
+  cmd: (text: string, command = text) => osc8(CMD_SCHEME + command, text),
+};
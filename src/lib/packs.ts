@@ -0,0 +1,222 @@
+// src/lib/packs.ts
+// 📦 Puzzle-pack format and runtime validation
+
+import type { Puzzle, PuzzleId } from "./puzzles";
+
+export type PuzzlePack = {
+  name: string;
+  description?: string;
+  puzzles: Puzzle[];
+};
+
+export type PackReport = {
+  name: string;
+  source: string;
+  loaded: number;
+  errors: string[];
+};
+
+/** Puzzles in this pack keep their IDs as-is; all others are namespaced. */
+export const CORE_PACK = "core";
+
+const TYPES = ["terminal", "localstorage", "route"];
+const DIFFICULTIES = ["easy", "medium", "hard", "secret"];
+
+type Obj = Record<string, unknown>;
+
+const isObj = (x: unknown): x is Obj =>
+  typeof x === "object" && x !== null && !Array.isArray(x);
+const isStr = (x: unknown): x is string => typeof x === "string";
+const isDigest = (x: unknown) => isStr(x) && /^[0-9a-f]{64}$/.test(x);
+const isStrArray = (x: unknown): x is string[] =>
+  Array.isArray(x) && x.every(isStr);
+
+/** `pack:id` for namespaced packs, plain `id` for the core pack. */
+export function qualifyId(pack: string, id: string): PuzzleId {
+  return pack === CORE_PACK || id.includes(":") ? id : `${pack}:${id}`;
+}
+
+//
+// ──────────────────────────────────────────────
+// 🔍 Shape checks
+// ──────────────────────────────────────────────
+//
+
+function checkPuzzle(raw: unknown, at: string, errors: string[]): boolean {
+  const before = errors.length;
+  const err = (msg: string) => errors.push(`${at}: ${msg}`);
+
+  if (!isObj(raw)) {
+    err("must be an object");
+    return false;
+  }
+
+  for (const key of ["id", "title", "short"]) {
+    if (!isStr(raw[key]) || !raw[key])
+      err(`'${key}' must be a non-empty string`);
+  }
+  if (isStr(raw.id) && !/^[\w-]+$/.test(raw.id))
+    err("'id' may only contain letters, digits, '_' and '-'");
+  if (!TYPES.includes(raw.type as string))
+    err(`'type' must be one of ${TYPES.join(", ")}`);
+  if (!DIFFICULTIES.includes(raw.difficulty as string))
+    err(`'difficulty' must be one of ${DIFFICULTIES.join(", ")}`);
+  if (!isStr(raw.salt) || !raw.salt) err("'salt' must be a non-empty string");
+  if (
+    !Array.isArray(raw.solutions) ||
+    raw.solutions.length === 0 ||
+    !raw.solutions.every(isDigest)
+  )
+    err("'solutions' must be SHA-256 hex digests (run 'npm run hash-packs')");
+
+  if (!Array.isArray(raw.hints)) err("'hints' must be an array");
+  else
+    raw.hints.forEach((h, i) => {
+      if (!isObj(h) || !isStr(h.text)) err(`hints[${i}].text must be a string`);
+      else if (h.cost !== undefined && typeof h.cost !== "number")
+        err(`hints[${i}].cost must be a number`);
+      else if (h.locked !== undefined && typeof h.locked !== "boolean")
+        err(`hints[${i}].locked must be a boolean`);
+    });
+
+  for (const key of ["description", "badge"]) {
+    if (raw[key] !== undefined && !isStr(raw[key]))
+      err(`'${key}' must be a string`);
+  }
+  for (const key of ["lower", "hidden"]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "boolean")
+      err(`'${key}' must be a boolean`);
+  }
+  if (raw.dependsOn !== undefined && !isStrArray(raw.dependsOn))
+    err("'dependsOn' must be an array of puzzle IDs");
+
+  if (raw.files !== undefined) {
+    if (!Array.isArray(raw.files)) err("'files' must be an array");
+    else
+      raw.files.forEach((f, i) => {
+        if (!isObj(f) || !isStr(f.path) || !f.path.startsWith("/"))
+          err(`files[${i}].path must be an absolute path`);
+        else if (!isStr(f.content)) err(`files[${i}].content must be a string`);
+        else if (f.mode !== undefined && typeof f.mode !== "number")
+          err(`files[${i}].mode must be a number`);
+      });
+  }
+
+  return errors.length === before;
+}
+
+//
+// ──────────────────────────────────────────────
+// 🔗 Graph checks
+// ──────────────────────────────────────────────
+//
+
+/** Returns the IDs on a dependency cycle, or null if the graph is acyclic. */
+export function findCycle(graph: Map<PuzzleId, PuzzleId[]>): PuzzleId[] | null {
+  const state = new Map<PuzzleId, "visiting" | "done">();
+  const stack: PuzzleId[] = [];
+
+  const visit = (id: PuzzleId): PuzzleId[] | null => {
+    if (state.get(id) === "done") return null;
+    if (state.get(id) === "visiting")
+      return [...stack.slice(stack.indexOf(id)), id];
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const dep of graph.get(id) ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const id of graph.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Validates a parsed pack against the puzzles already registered. IDs are
+ * namespaced (`pack:id`) unless the pack is the core pack; `dependsOn`
+ * entries that name a puzzle in the same pack are namespaced the same way.
+ * A pack with any error is rejected as a whole.
+ */
+export function validatePack(
+  raw: unknown,
+  source: string,
+  existing: Puzzle[]
+): { pack: PuzzlePack | null; report: PackReport } {
+  const errors: string[] = [];
+  const fail = (name: string) => ({
+    pack: null,
+    report: { name, source, loaded: 0, errors },
+  });
+
+  if (!isObj(raw)) {
+    errors.push("pack must be a JSON object");
+    return fail("?");
+  }
+  const name = isStr(raw.name) ? raw.name : "?";
+  if (!isStr(raw.name) || !/^[a-z0-9-]+$/.test(raw.name))
+    errors.push("'name' must be lowercase letters, digits or '-'");
+  if (raw.description !== undefined && !isStr(raw.description))
+    errors.push("'description' must be a string");
+  if (!Array.isArray(raw.puzzles)) {
+    errors.push("'puzzles' must be an array");
+    return fail(name);
+  }
+
+  const valid = raw.puzzles.filter((p, i) =>
+    checkPuzzle(
+      p,
+      `puzzles[${i}]${isObj(p) && isStr(p.id) ? ` (${p.id})` : ""}`,
+      errors
+    )
+  ) as Puzzle[];
+  if (errors.length) return fail(name);
+
+  // Namespace IDs and local dependency references
+  const localIds = new Set(valid.map((p) => p.id));
+  const puzzles = valid.map((p) => ({
+    ...p,
+    id: qualifyId(name, p.id),
+    ...(p.dependsOn && {
+      dependsOn: p.dependsOn.map((d) =>
+        localIds.has(d) ? qualifyId(name, d) : d
+      ),
+    }),
+  }));
+
+  const known = new Set(existing.map((p) => p.id));
+  const seen = new Set<PuzzleId>();
+  for (const p of puzzles) {
+    if (known.has(p.id) || seen.has(p.id))
+      errors.push(`duplicate puzzle ID '${p.id}'`);
+    seen.add(p.id);
+  }
+  for (const p of puzzles) {
+    for (const dep of p.dependsOn ?? []) {
+      if (!known.has(dep) && !seen.has(dep))
+        errors.push(`'${p.id}' depends on unknown puzzle '${dep}'`);
+    }
+  }
+
+  const graph = new Map<PuzzleId, PuzzleId[]>(
+    [...existing, ...puzzles].map((p) => [p.id, p.dependsOn ?? []])
+  );
+  const cycle = findCycle(graph);
+  if (cycle) errors.push(`dependency cycle: ${cycle.join(" → ")}`);
+
+  if (errors.length) return fail(name);
+  return {
+    pack: {
+      name,
+      description: raw.description as string | undefined,
+      puzzles,
+    },
+    report: { name, source, loaded: puzzles.length, errors },
+  };
+}
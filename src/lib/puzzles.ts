@@ -1,104 +1,152 @@
 // src/lib/puzzles.ts
 // 🧠 Central puzzle registry for the Hacker Lab (terminal-first edition)
 
+import corePack from "../packs/core.json";
+import { sha256Hex } from "./ciphers";
+import { validatePack, type PackReport } from "./packs";
+import { recordAttempt, recordHints } from "./stats";
+import {
+  clearLimits,
+  formatLockout,
+  getLockout,
+  registerMiss,
+} from "./ratelimit";
+import { checkFunds, earnSolveReward, spendOnHint } from "./wallet";
+import { getRawItem, read, setRawItem, write } from "./storage";
+import { emit } from "./events";
+import type { SaveData } from "./savecode";
+
 export type PuzzleId = string;
 
 export type HintTier = {
   text: string;
-  cost?: number; // optional future unlock cost
+  cost?: number; // points spent to unlock this tier (free if omitted)
   locked?: boolean; // locked until user performs action
 };
 
 export type Difficulty = "easy" | "medium" | "hard" | "secret";
 
+export type PuzzleFile = {
+  path: string; // absolute path in the Hacker Lab filesystem
+  content: string;
+  mode?: number; // permission bits (decimal in JSON packs), defaults to 0o644
+};
+
 export type Puzzle = {
   id: PuzzleId;
   title: string;
   short: string;
   type: "terminal" | "localstorage" | "route";
   difficulty: Difficulty;
-  solutions: string[];
+  salt: string;
+  solutions: string[]; // hex SHA-256 of `${salt}:${answer}`, see hashAnswer
   lower?: boolean;
   hints: HintTier[];
   description?: string;
   badge?: string;
   dependsOn?: PuzzleId[];
   hidden?: boolean;
+  files?: PuzzleFile[]; // clues seeded into the virtual filesystem
 };
 
-// 🔐 LocalStorage keys
-const LS_KEYS = {
-  badges: "portfolio_badges",
-  solved: (id: PuzzleId) => `puzzle_solved_${id}`,
-  hintUsage: "puzzle_hint_usage",
-};
+// 🧩 Puzzle registry, filled from validated puzzle packs
+const puzzles: Puzzle[] = [];
+const packReports: PackReport[] = [];
+
+/**
+ * Validates a parsed pack and adds its puzzles to the registry. Invalid
+ * packs are skipped entirely and their errors logged and kept for `packs`.
+ * Packs can arrive after the first render, so views listen for
+ * `packs:registered`.
+ */
+export function registerPack(raw: unknown, source: string): PackReport {
+  const { pack, report } = validatePack(raw, source, puzzles);
+  if (pack) {
+    puzzles.push(...pack.puzzles);
+    emit("packs:registered", {
+      source,
+      puzzles: pack.puzzles.map((p) => p.id),
+    });
+  } else
+    console.error(
+      `[packs] rejected ${source}:\n  ${report.errors.join("\n  ")}`
+    );
+  packReports.push(report);
+  return report;
+}
+
+export function getPackReports(): PackReport[] {
+  return packReports;
+}
+
+const FETCH_TIMEOUT = 8000; // ms before a stalled pack request is dropped
+
+/** Fetches and parses a JSON file, giving up after `FETCH_TIMEOUT`. */
+async function fetchJson(url: string): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return await res.json();
+  } catch (e) {
+    if (controller.signal.aborted)
+      throw new Error(`timed out after ${FETCH_TIMEOUT / 1000}s`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
-// 🧩 Puzzle registry (terminal-driven)
-const puzzles: Puzzle[] = [
-  {
-    id: "scanPuzzle",
-    title: "System Scan",
-    short: "The 'scan' command reveals encrypted fragments.",
-    type: "terminal",
-    difficulty: "easy",
-    solutions: ["ACCESS_GRANTED"],
-    hints: [
-      { text: "Hint locked 🔒 — perform a task to unlock.", locked: true },
-      { text: "Hint locked 🔒 — perform a task to unlock.", locked: true },
-    ],
-    description:
-      "Type 'scan' in the terminal to begin a system integrity scan. Hidden fragments will appear — assemble them carefully.",
-    badge: "System Scanner",
-  },
-  {
-    id: "probePuzzle",
-    title: "Data Probe",
-    short: "After completing the scan, try probing deeper into the system.",
-    type: "terminal",
-    difficulty: "medium",
-    solutions: ["ROOT_SIGNAL_FOUND"],
-    dependsOn: ["scanPuzzle"],
-    hints: [
-      { text: "Hint locked 🔒 — perform a task to unlock.", locked: true },
-      { text: "Hint locked 🔒 — perform a task to unlock.", locked: true },
-    ],
-    description:
-      "Once the scan is complete, typing 'probe' reveals corrupted signal data. You must reconstruct the original code word.",
-    badge: "Data Analyst",
-  },
-  {
-    id: "localKeyPuzzle",
-    title: "Local Key Cipher",
-    short: "There’s a key hidden within your device memory.",
-    type: "localstorage",
-    difficulty: "hard",
-    solutions: ["DECRYPTED_KEY=TRUE"],
-    hints: [
-      { text: "Hint locked 🔒 — perform a task to unlock.", locked: true },
-      { text: "Hint locked 🔒 — perform a task to unlock.", locked: true },
-    ],
-    description:
-      "You must create a key in localStorage named 'DECRYPTED_KEY' with value 'TRUE' to pass. Only those who decoded the previous signals will know how.",
-    badge: "Memory Hacker",
-  },
-  {
-    id: "neoEaster",
-    title: "The Awakening",
-    short: "Something special happens when you connect the final dots.",
-    type: "terminal",
-    difficulty: "secret",
-    solutions: ["THERE_IS_NO_SPOON"],
-    dependsOn: ["probePuzzle", "localKeyPuzzle"],
-    hidden: true,
-    hints: [
-      { text: "Hint locked 🔒 — perform a task to unlock.", locked: true },
-      { text: "Hint locked 🔒 — perform a task to unlock.", locked: true },
-    ],
-    description:
-      "When all systems align, type 'awakening' or something equally prophetic. You’ll know when you’re ready.",
-    badge: "The One",
-  },
-];
+/**
+ * Loads the extra packs listed in `/packs/index.json` (served from
+ * `public/`). A missing index simply means no extra packs. Packs download
+ * side by side, then register in index order so a pack can depend on the
+ * ones listed before it.
+ */
+export async function loadPuzzlePacks(base = "/packs/"): Promise<void> {
+  let files: unknown;
+  try {
+    files = await fetchJson(`${base}index.json`);
+  } catch {
+    return;
+  }
+  if (!Array.isArray(files)) {
+    console.error("[packs] index.json must be an array of file names");
+    return;
+  }
+
+  const sources = files.map((file) => `${base}${file}`);
+  const downloads = await Promise.allSettled(sources.map((s) => fetchJson(s)));
+  for (const [i, source] of sources.entries()) {
+    const download = downloads[i];
+    try {
+      if (download.status === "rejected") throw download.reason;
+      registerPack(download.value, source);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      packReports.push({ name: "?", source, loaded: 0, errors: [message] });
+      console.error(`[packs] failed to load ${source}: ${message}`);
+    }
+  }
+}
+
+registerPack(corePack, "src/packs/core.json");
+
+// 🧪 Puzzles shown instead of the registry while the studio previews a draft
+let preview: Puzzle[] | null = null;
+
+/** Swaps in a draft's puzzles for the studio preview; `null` restores. */
+export function setPreviewPuzzles(list: Puzzle[] | null): void {
+  preview = list;
+}
+
+const active = () => preview ?? puzzles;
+
+/** Every registered puzzle, ignoring any studio preview. */
+export function getRegistry(): Puzzle[] {
+  return puzzles;
+}
 
 //
 // ──────────────────────────────────────────────
@@ -107,65 +155,125 @@ const puzzles: Puzzle[] = [
 //
 
 export function getPuzzles(includeHidden = false): Puzzle[] {
-  return includeHidden ? puzzles : puzzles.filter((p) => !p.hidden);
+  const list = active();
+  return includeHidden ? list : list.filter((p) => !p.hidden);
 }
 
 export function findPuzzle(id: PuzzleId): Puzzle | undefined {
-  return puzzles.find((p) => p.id === id);
+  return active().find((p) => p.id === id);
+}
+
+/**
+ * Progress merged in from save codes. Codes can't be authenticated, so it
+ * unlocks puzzles like local progress but is never signed as local: it
+ * earns no points and no leaderboard score.
+ */
+export function getImported(): SaveData {
+  const saved = read("imported");
+  return {
+    solved: saved?.solved ?? [],
+    badges: saved?.badges ?? [],
+    hintUsage: saved?.hintUsage ?? {},
+    stats: saved?.stats ?? {},
+    dailyBest: saved?.dailyBest ?? 0,
+  };
 }
 
 export function isSolved(id: PuzzleId): boolean {
-  try {
-    return localStorage.getItem(LS_KEYS.solved(id)) === "1";
-  } catch {
-    return false;
-  }
+  return (
+    (read("solved")?.includes(id) ?? false) || getImported().solved.includes(id)
+  );
 }
 
-export function markSolved(id: PuzzleId): void {
-  try {
-    localStorage.setItem(LS_KEYS.solved(id), "1");
+/**
+ * Records the solve, awards its badge and credits the wallet, announcing
+ * each on the event bus. Returns the points earned.
+ */
+export function markSolved(id: PuzzleId): number {
+  const solved = read("solved") ?? [];
+  if (!solved.includes(id)) write("solved", [...solved, id]);
+  const badges = read("badges") ?? [];
+  const newBadge = !badges.includes(id);
+  if (newBadge) write("badges", [...badges, id]);
 
-    const raw = localStorage.getItem(LS_KEYS.badges);
-    const arr = raw ? JSON.parse(raw) : [];
-    if (!arr.includes(id)) {
-      arr.push(id);
-      localStorage.setItem(LS_KEYS.badges, JSON.stringify(arr));
-    }
-  } catch {
-    // ignore storage errors (incognito mode etc.)
-  }
+  const p = findPuzzle(id);
+  const points = p ? earnSolveReward(id, p.difficulty) : 0;
+  emit("puzzle:solved", { id, points });
+  if (newBadge) emit("badge:earned", { id });
+  return points;
 }
 
-export function checkSolution(id: PuzzleId, attempt: string) {
+/**
+ * Salted SHA-256 of an answer, as hex. Must stay in sync with
+ * `scripts/hash-packs.mjs`, which produces the digests stored in packs.
+ */
+export function hashAnswer(salt: string, answer: string): Promise<string> {
+  return sha256Hex(`${salt}:${answer}`);
+}
+
+const rewardNote = (points: number) => (points ? ` (+${points} pts)` : "");
+
+export type SolutionResult = {
+  ok: boolean;
+  message: string;
+  retryIn?: number; // ms left on a wrong-guess lockout
+};
+
+/**
+ * Checks an answer and records the attempt in the puzzle's stats. Pass
+ * `countMiss: false` when probing answers the visitor didn't aim at this
+ * puzzle (route visits, `flag`), so misses don't count as wrong guesses or
+ * towards a lockout. A locked-out puzzle rejects every attempt.
+ */
+export async function checkSolution(
+  id: PuzzleId,
+  attempt: string,
+  { countMiss = true } = {}
+): Promise<SolutionResult> {
   const p = findPuzzle(id);
   if (!p) return { ok: false, message: "Puzzle not found." };
+  if (!isUnlocked(id)) return { ok: false, message: formatRequirement(id) };
 
-  const attemptNormalized = p.lower ? attempt.toLowerCase() : attempt;
-  const match = p.solutions.some((s) =>
-    p.lower ? attemptNormalized === s.toLowerCase() : attemptNormalized === s
-  );
+  const wait = getLockout(id);
+  if (wait) return { ok: false, message: formatLockout(wait), retryIn: wait };
 
-  if (match) {
-    markSolved(id);
-    return { ok: true, message: "✅ Access Granted" };
-  }
+  const matches = async (answer: string) =>
+    p.solutions.includes(
+      await hashAnswer(p.salt, p.lower ? answer.toLowerCase() : answer)
+    );
 
-  // Special case for localStorage key=value puzzles
-  if (p.type === "localstorage" && attempt.includes("=")) {
-    const [key, val] = attempt.split("=").map((s) => s.trim());
-    const pair = `${key}=${val}`;
-    if (p.solutions.includes(pair)) {
-      try {
-        localStorage.setItem(key, val);
-        markSolved(id);
-        return { ok: true, message: "🗝️ Correct — key stored in memory!" };
-      } catch {
+  // localStorage puzzles: `KEY=VALUE` stores the key, a bare `KEY` checks
+  // one the visitor set by hand. These raw keys are deliberately unsigned.
+  if (p.type === "localstorage") {
+    const [key, typed] = attempt.split("=").map((s) => s.trim());
+    const val = typed ?? getRawItem(key);
+    if (val !== null && (await matches(`${key}=${val}`))) {
+      if (typed !== undefined && !setRawItem(key, val))
         return { ok: false, message: "⚠️ Couldn't access localStorage." };
-      }
+      recordAttempt(id, true);
+      clearLimits(id);
+      const earned = markSolved(id);
+      const how = typed === undefined ? "found" : "stored";
+      return {
+        ok: true,
+        message: `🗝️ Correct — key ${how} in memory!${rewardNote(earned)}`,
+      };
     }
   }
 
+  if (await matches(attempt)) {
+    recordAttempt(id, true);
+    clearLimits(id);
+    const earned = markSolved(id);
+    return { ok: true, message: `✅ Access Granted${rewardNote(earned)}` };
+  }
+
+  if (countMiss) {
+    recordAttempt(id, false);
+    const lockout = registerMiss(id, p.difficulty);
+    if (lockout)
+      return { ok: false, message: formatLockout(lockout), retryIn: lockout };
+  }
   return { ok: false, message: "❌ Access Denied — try another command." };
 }
 
@@ -174,6 +282,109 @@ export function getHints(id: PuzzleId): HintTier[] {
   return p?.hints ?? [];
 }
 
+/** Points needed to reveal tiers `from`..`to` (1-based, inclusive). */
+export function getHintCost(id: PuzzleId, from: number, to: number): number {
+  return getHints(id)
+    .slice(from - 1, to)
+    .reduce((sum, h) => sum + (h.cost ?? 0), 0);
+}
+
+/** Highest hint tier revealed for each puzzle, here or on an import. */
+export function getHintUsage(): Record<PuzzleId, number> {
+  const usage = { ...(read("hintUsage") ?? {}) };
+  for (const [id, tier] of Object.entries(getImported().hintUsage))
+    usage[id] = Math.max(usage[id] ?? 0, tier);
+  return usage;
+}
+
+/**
+ * Reveals every hint tier up to `tier`, paying for the ones not yet
+ * revealed. Nothing is spent unless the whole range is affordable.
+ */
+export function unlockHints(
+  id: PuzzleId,
+  tier: number
+): { ok: true } | { ok: false; error: string } {
+  tier = Math.min(tier, getHints(id).length);
+  const used = getHintUsage()[id] ?? 0;
+  if (tier <= used) return { ok: true };
+
+  const funds = checkFunds(getHintCost(id, used + 1, tier));
+  if (!funds.ok) return funds;
+  for (let t = used + 1; t <= tier; t++) {
+    spendOnHint(id, t, getHintCost(id, t, t));
+  }
+  recordHints(id, tier);
+  write("hintUsage", { ...read("hintUsage"), [id]: tier });
+  emit("hint:unlocked", { id, tier });
+  return { ok: true };
+}
+
+//
+// ──────────────────────────────────────────────
+// 🔗 Dependencies
+// ──────────────────────────────────────────────
+//
+
+export type UnlockState = "locked" | "unlocked" | "solved";
+
+/** Prerequisites of `id` that are not solved yet. */
+export function getMissingDeps(id: PuzzleId): Puzzle[] {
+  return (findPuzzle(id)?.dependsOn ?? [])
+    .filter((d) => !isSolved(d))
+    .map((d) => findPuzzle(d))
+    .filter((d): d is Puzzle => d !== undefined);
+}
+
+export function isUnlocked(id: PuzzleId): boolean {
+  return getMissingDeps(id).length === 0;
+}
+
+export function getUnlockState(id: PuzzleId): UnlockState {
+  if (isSolved(id)) return "solved";
+  return isUnlocked(id) ? "unlocked" : "locked";
+}
+
+/** "🔒 Locked — requires System Scan, Data Probe" (empty when unlocked). */
+export function formatRequirement(id: PuzzleId): string {
+  const missing = getMissingDeps(id);
+  if (!missing.length) return "";
+  return `🔒 Locked — requires ${missing.map((p) => p.title).join(", ")}`;
+}
+
+/**
+ * Every puzzle ID in an order where prerequisites come first, keeping
+ * registry order among puzzles that are ready at the same time. Packs are
+ * validated to be acyclic, so every puzzle is included.
+ */
+export function getUnlockOrder(): PuzzleId[] {
+  const order: PuzzleId[] = [];
+  const placed = new Set<PuzzleId>();
+  let pending = [...active()];
+  while (pending.length) {
+    const ready = pending.filter((p) =>
+      (p.dependsOn ?? []).every((d) => placed.has(d))
+    );
+    if (!ready.length) break;
+    ready.forEach((p) => {
+      order.push(p.id);
+      placed.add(p.id);
+    });
+    pending = pending.filter((p) => !placed.has(p.id));
+  }
+  return order;
+}
+
+/** Longest chain of prerequisites below each puzzle (0 = no deps). */
+export function getUnlockDepths(): Map<PuzzleId, number> {
+  const depths = new Map<PuzzleId, number>();
+  for (const id of getUnlockOrder()) {
+    const deps = findPuzzle(id)?.dependsOn ?? [];
+    depths.set(id, Math.max(-1, ...deps.map((d) => depths.get(d) ?? 0)) + 1);
+  }
+  return depths;
+}
+
 //
 // ──────────────────────────────────────────────
 // 🎯 UI Helpers
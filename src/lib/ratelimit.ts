@@ -0,0 +1,117 @@
+// src/lib/ratelimit.ts
+// 🚨 Wrong-guess rate limiting with exponential backoff lockouts
+
+import type { Difficulty } from "./puzzles";
+import { read, write } from "./storage";
+
+export type LockoutPolicy = {
+  maxMisses: number; // wrong guesses allowed inside the window
+  windowMs: number;
+  baseLockMs: number; // first lockout; doubles with every further strike
+  maxLockMs: number;
+};
+
+export type LimitState = {
+  misses: number[]; // timestamps of recent wrong guesses
+  strikes: number; // lockouts so far, drives the backoff
+  lockedUntil: number;
+};
+
+/** Harder puzzles tolerate fewer guesses and lock out for longer. */
+export const LOCKOUT_POLICY: Record<Difficulty, LockoutPolicy> = {
+  easy: {
+    maxMisses: 6,
+    windowMs: 60_000,
+    baseLockMs: 15_000,
+    maxLockMs: 5 * 60_000,
+  },
+  medium: {
+    maxMisses: 5,
+    windowMs: 60_000,
+    baseLockMs: 30_000,
+    maxLockMs: 10 * 60_000,
+  },
+  hard: {
+    maxMisses: 4,
+    windowMs: 60_000,
+    baseLockMs: 30_000,
+    maxLockMs: 15 * 60_000,
+  },
+  secret: {
+    maxMisses: 3,
+    windowMs: 60_000,
+    baseLockMs: 60_000,
+    maxLockMs: 30 * 60_000,
+  },
+};
+
+/**
+ * The difficulty whose policy is strictest (fewest misses, then longest
+ * lockout), for guesses that probe several puzzles at once.
+ */
+export function strictestDifficulty(
+  difficulties: Difficulty[]
+): Difficulty | undefined {
+  return [...difficulties].sort((a, b) => {
+    const [p, q] = [LOCKOUT_POLICY[a], LOCKOUT_POLICY[b]];
+    return p.maxMisses - q.maxMisses || q.baseLockMs - p.baseLockMs;
+  })[0];
+}
+
+function loadAll(): Record<string, LimitState> {
+  return read("rateLimits") ?? {};
+}
+
+function saveAll(all: Record<string, LimitState>): void {
+  write("rateLimits", all);
+}
+
+/** Milliseconds until `key` (a puzzle ID or command scope) may guess again. */
+export function getLockout(key: string, now = Date.now()): number {
+  return Math.max((loadAll()[key]?.lockedUntil ?? 0) - now, 0);
+}
+
+/**
+ * Records a wrong guess. Once `maxMisses` land inside the window the key is
+ * locked for `baseLockMs * 2^(strikes - 1)`, capped at `maxLockMs`.
+ * Returns the new lockout in ms, or 0 if guessing may continue.
+ */
+export function registerMiss(
+  key: string,
+  difficulty: Difficulty,
+  now = Date.now()
+): number {
+  const policy = LOCKOUT_POLICY[difficulty];
+  const all = loadAll();
+  const state = all[key] ?? { misses: [], strikes: 0, lockedUntil: 0 };
+  const misses = [
+    ...state.misses.filter((t) => now - t < policy.windowMs),
+    now,
+  ];
+
+  let next: LimitState = { ...state, misses };
+  if (misses.length >= policy.maxMisses) {
+    const strikes = state.strikes + 1;
+    const lockMs = Math.min(
+      policy.baseLockMs * 2 ** (strikes - 1),
+      policy.maxLockMs
+    );
+    next = { misses: [], strikes, lockedUntil: now + lockMs };
+  }
+
+  all[key] = next;
+  saveAll(all);
+  return getLockout(key, now);
+}
+
+/** Forgets misses and strikes, e.g. after a correct answer. */
+export function clearLimits(key: string): void {
+  const all = loadAll();
+  if (!(key in all)) return;
+  delete all[key];
+  saveAll(all);
+}
+
+export function formatLockout(ms: number): string {
+  return `🔒 Intrusion detected, retry in ${Math.ceil(ms / 1000)}s`;
+}
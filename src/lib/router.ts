@@ -0,0 +1,100 @@
+// src/lib/router.ts
+// 🧭 Minimal hash router and URL-based route puzzles
+
+import {
+  checkSolution,
+  getPuzzles,
+  isSolved,
+  isUnlocked,
+  type PuzzleId,
+} from "./puzzles";
+
+export type Route = {
+  /** Path after `#`, e.g. `/backdoor`; `/` when there is no hash route. */
+  path: string;
+  /** Query parameters from both `?a=b` and `#/path?a=b`. */
+  params: URLSearchParams;
+};
+
+/** `#/lab/<puzzleId>` deep-links into the Hacker Lab with a puzzle open. */
+export const LAB_PATH = "/lab";
+
+export function parseRoute(hash: string, search = ""): Route {
+  const [rawPath, query = ""] = hash.replace(/^#/, "").split("?", 2);
+  const path = "/" + rawPath.split("/").filter(Boolean).join("/");
+  const params = new URLSearchParams(search);
+  new URLSearchParams(query).forEach((v, k) => params.set(k, v));
+  return { path, params };
+}
+
+export function getRoute(): Route {
+  return parseRoute(window.location.hash, window.location.search);
+}
+
+/** Changes the hash route; listeners fire through `hashchange`. */
+export function navigate(path: string): void {
+  window.location.hash = path.startsWith("/") ? path : `/${path}`;
+}
+
+/** Calls `listener` on every hash or history change. Returns an unsubscribe. */
+export function onRouteChange(listener: (route: Route) => void): () => void {
+  const handle = () => listener(getRoute());
+  window.addEventListener("hashchange", handle);
+  window.addEventListener("popstate", handle);
+  return () => {
+    window.removeEventListener("hashchange", handle);
+    window.removeEventListener("popstate", handle);
+  };
+}
+
+/** Puzzle ID of a `#/lab/<id>` deep link, `""` for `#/lab`, else null. */
+export function labTarget(route: Route): PuzzleId | null {
+  if (route.path === LAB_PATH) return "";
+  if (!route.path.startsWith(LAB_PATH + "/")) return null;
+  return decodeURIComponent(route.path.slice(LAB_PATH.length + 1));
+}
+
+//
+// ──────────────────────────────────────────────
+// 🔑 Route puzzles
+// ──────────────────────────────────────────────
+//
+
+/**
+ * Answers a route stands for: its path (`/backdoor`) and every query pair
+ * qualified by that path (`/backdoor?key=value`), so a parameter only counts
+ * on the page it belongs to. Solutions are hashed, so each open route puzzle
+ * is tried against each of them.
+ */
+function routeAnswers(route: Route): string[] {
+  const answers = route.path === "/" ? [] : [route.path];
+  route.params.forEach((v, k) => answers.push(`${route.path}?${k}=${v}`));
+  return answers;
+}
+
+/**
+ * Solves every open route puzzle the route answers and returns their IDs.
+ * Repeats while puzzles get solved, so one URL can open a chain.
+ */
+export async function solveRoutePuzzles(route: Route): Promise<PuzzleId[]> {
+  const answers = routeAnswers(route);
+  const solved: PuzzleId[] = [];
+  const openPuzzles = () =>
+    getPuzzles(true).filter(
+      (p) => p.type === "route" && !isSolved(p.id) && isUnlocked(p.id)
+    );
+
+  for (let progress = true; progress; ) {
+    progress = false;
+    for (const p of openPuzzles()) {
+      for (const answer of answers) {
+        if ((await checkSolution(p.id, answer, { countMiss: false })).ok) {
+          solved.push(p.id);
+          progress = true;
+          break;
+        }
+      }
+    }
+  }
+  return solved;
+}
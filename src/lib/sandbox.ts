@@ -0,0 +1,30 @@
+// src/lib/sandbox.ts
+// 🧪 Throwaway progress for test-solving drafts in the puzzle studio
+
+import { MemoryStorage, swapBackend } from "./storage";
+import { reloadState } from "./store";
+
+let active = false;
+
+/**
+ * Points storage at an empty in-memory store, so solves, hints, wallet and
+ * stats written while test-solving never reach real progress. Calling it
+ * again starts over with a fresh store.
+ */
+export function enterSandbox(): void {
+  swapBackend(new MemoryStorage());
+  active = true;
+  reloadState();
+}
+
+/** Goes back to the real, persisted progress. */
+export function exitSandbox(): void {
+  if (!active) return;
+  swapBackend(null);
+  active = false;
+  reloadState();
+}
+
+export function inSandbox(): boolean {
+  return active;
+}
@@ -0,0 +1,288 @@
+// src/lib/savecode.ts
+// 💾 Save codes: progress packed into a short string that moves between devices
+//
+// Codes are not authenticated: the checksum catches typos and truncation,
+// not forgery. Import only takes what a real run could have reached, and
+// keeps it apart from local progress as unverified (see `getImported`).
+
+import {
+  getHints,
+  getHintUsage,
+  getImported,
+  getRegistry,
+  type PuzzleId,
+} from "./puzzles";
+import { isDailyId, longestStreak } from "./daily";
+import { loadStats, type PuzzleStats } from "./stats";
+import { read, write } from "./storage";
+import { reloadState } from "./store";
+
+/** Bumped whenever the payload layout changes; older codes stay readable. */
+export const SAVE_VERSION = 1;
+
+const MAGIC = "LAB";
+
+/** What a save code carries. Wallet, settings and transcripts stay local. */
+export type SaveData = {
+  solved: PuzzleId[];
+  badges: PuzzleId[];
+  hintUsage: Record<PuzzleId, number>;
+  stats: Record<PuzzleId, PuzzleStats>;
+  dailyBest: number;
+};
+
+export type ImportSummary = {
+  solved: number; // puzzles newly marked solved, as unverified
+  badges: number; // badges newly earned
+  skipped: PuzzleId[]; // ids this build doesn't know
+  locked: PuzzleId[]; // solves dropped for unsolved prerequisites
+};
+
+export type ImportResult =
+  | { ok: true; value: ImportSummary }
+  | { ok: false; error: string };
+
+// Short keys keep the code (and its QR) small
+type Payload = {
+  s: PuzzleId[];
+  b: PuzzleId[];
+  h: Record<PuzzleId, number>;
+  t: Record<PuzzleId, PuzzleStats>;
+  d?: number; // best daily streak; missing in codes from before it was saved
+};
+
+//
+// ──────────────────────────────────────────────
+// 🔣 Encoding
+// ──────────────────────────────────────────────
+//
+
+/** FNV-1a, as 8 hex digits. Catches typos and truncation, not tampering. */
+function checksum(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+async function pipe(bytes: Uint8Array, stream: GenericTransformStream) {
+  const body = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(body).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  const bin = Array.from(bytes, (b) => String.fromCharCode(b)).join("");
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+//
+// ──────────────────────────────────────────────
+// 📤 Export
+// ──────────────────────────────────────────────
+//
+
+/** Local progress plus earlier imports, so codes carry on across devices. */
+export function collectSave(): SaveData {
+  const imported = getImported();
+  const union = (a: PuzzleId[], b: PuzzleId[]) => [...new Set([...a, ...b])];
+  return {
+    solved: union(read("solved") ?? [], imported.solved),
+    badges: union(read("badges") ?? [], imported.badges),
+    hintUsage: getHintUsage(),
+    stats: { ...imported.stats, ...loadStats() },
+    dailyBest: Math.max(read("dailyBest") ?? 0, imported.dailyBest),
+  };
+}
+
+/**
+ * `LAB<version>.<body>.<checksum>`, where the body is deflated JSON in
+ * base64url — safe to paste into a terminal, a URL or a QR code.
+ */
+export async function exportSave(data = collectSave()): Promise<string> {
+  const payload: Payload = {
+    s: data.solved,
+    b: data.badges,
+    h: data.hintUsage,
+    t: data.stats,
+    d: data.dailyBest,
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const head = `${MAGIC}${SAVE_VERSION}.`;
+  const signed =
+    head + toBase64Url(await pipe(json, new CompressionStream("deflate")));
+  return `${signed}.${checksum(signed)}`;
+}
+
+/** A file name for downloading the code, dated so saves don't collide. */
+export function saveFileName(now = new Date()): string {
+  return `hacker-lab-save-${now.toISOString().slice(0, 10)}.txt`;
+}
+
+//
+// ──────────────────────────────────────────────
+// 📥 Import
+// ──────────────────────────────────────────────
+//
+
+type Obj = Record<string, unknown>;
+
+const isObj = (x: unknown): x is Obj =>
+  typeof x === "object" && x !== null && !Array.isArray(x);
+const count = (x: unknown) =>
+  typeof x === "number" && Number.isFinite(x) && x >= 0 ? Math.floor(x) : 0;
+const time = (x: unknown) =>
+  typeof x === "number" && Number.isFinite(x) && x > 0 ? x : undefined;
+
+/** Unpacks a code without touching storage. */
+export async function decodeSave(
+  code: string
+): Promise<{ ok: true; value: Payload } | { ok: false; error: string }> {
+  // Codes often pick up line breaks when copied out of chats or emails
+  const parts = code.replace(/\s+/g, "").split(".");
+  if (parts.length !== 3 || !parts[0].startsWith(MAGIC))
+    return { ok: false, error: "not a save code" };
+
+  const [head, body, sum] = parts;
+  const version = Number(head.slice(MAGIC.length));
+  if (!Number.isInteger(version) || version < 1)
+    return { ok: false, error: "not a save code" };
+  if (version > SAVE_VERSION)
+    return {
+      ok: false,
+      error: `save code v${version} is newer than this site (v${SAVE_VERSION})`,
+    };
+  if (checksum(`${head}.${body}`) !== sum.toLowerCase())
+    return { ok: false, error: "checksum mismatch — the code is incomplete" };
+
+  let raw: unknown;
+  try {
+    const bytes = await pipe(
+      fromBase64Url(body),
+      new DecompressionStream("deflate")
+    );
+    raw = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return { ok: false, error: "save code is corrupted" };
+  }
+  if (!isObj(raw)) return { ok: false, error: "save code is corrupted" };
+
+  const ids = (x: unknown) =>
+    Array.isArray(x) ? x.filter((s): s is string => typeof s === "string") : [];
+  return {
+    ok: true,
+    value: {
+      s: ids(raw.s),
+      b: ids(raw.b),
+      h: isObj(raw.h) ? (raw.h as Payload["h"]) : {},
+      t: isObj(raw.t) ? (raw.t as Payload["t"]) : {},
+      d: count(raw.d),
+    },
+  };
+}
+
+function mergeStats(
+  a: PuzzleStats | undefined,
+  raw: unknown,
+  solved: boolean
+): PuzzleStats {
+  const b = isObj(raw) ? raw : {};
+  const earliest = (x?: number, y?: number) =>
+    x === undefined ? y : y === undefined ? x : Math.min(x, y);
+  return {
+    firstSeen: earliest(a?.firstSeen, time(b.firstSeen)),
+    firstAttempt: earliest(a?.firstAttempt, time(b.firstAttempt)),
+    solvedAt: earliest(a?.solvedAt, solved ? time(b.solvedAt) : undefined),
+    attempts: Math.max(a?.attempts ?? 0, count(b.attempts)),
+    wrong: Math.max(a?.wrong ?? 0, count(b.wrong)),
+    hints: Math.max(a?.hints ?? 0, count(b.hints)),
+  };
+}
+
+/**
+ * Solves a code may add to `local`: known to this build, and with every
+ * prerequisite solved. Dropping one can strand puzzles that depend on it,
+ * so this repeats until nothing changes.
+ */
+function reachable(
+  local: PuzzleId[],
+  imported: PuzzleId[],
+  known: Map<PuzzleId, PuzzleId[]>
+): PuzzleId[] {
+  let kept = imported.filter((id) => known.has(id) && !local.includes(id));
+  for (let size = -1; size !== kept.length; ) {
+    size = kept.length;
+    const all = new Set([...local, ...kept]);
+    kept = kept.filter((id) => known.get(id)!.every((d) => all.has(d)));
+  }
+  return kept;
+}
+
+/**
+ * Merges a save code into the imported progress: solves and badges are
+ * unioned, hint tiers and stat counters keep the higher value, timestamps
+ * the earlier one. Only puzzles this build ships (plus past dailies, for
+ * the streak) are taken, and only with their prerequisites solved; badges
+ * need their solve, and the best streak needs the dailies behind it.
+ * Nothing is signed as local progress and no rewards are paid out.
+ */
+export async function importSave(code: string): Promise<ImportResult> {
+  const decoded = await decodeSave(code);
+  if (!decoded.ok) return decoded;
+  const { s, b, h, t, d = 0 } = decoded.value;
+
+  const known = new Map(getRegistry().map((p) => [p.id, p.dependsOn ?? []]));
+  for (const id of [...s, ...Object.keys(t)])
+    if (isDailyId(id) && !known.has(id)) known.set(id, []);
+  const incoming = new Set([...s, ...b, ...Object.keys(h), ...Object.keys(t)]);
+  const skipped = [...incoming].filter((id) => !known.has(id));
+
+  const current = collectSave();
+  const added = reachable(current.solved, s, known);
+  const solved = [...current.solved, ...added];
+  const locked = s.filter((id) => known.has(id) && !solved.includes(id));
+  const badges = [...new Set(b)].filter(
+    (id) => solved.includes(id) && !current.badges.includes(id)
+  );
+
+  const prev = getImported();
+  const hintUsage = { ...prev.hintUsage };
+  for (const [id, tier] of Object.entries(h)) {
+    if (!known.has(id)) continue;
+    const raised = Math.min(count(tier), getHints(id).length);
+    if (raised > (current.hintUsage[id] ?? 0)) hintUsage[id] = raised;
+  }
+
+  // Imported stats only count a solve that survived the checks above
+  const stats = { ...prev.stats };
+  for (const [id, entry] of Object.entries(t))
+    if (known.has(id))
+      stats[id] = mergeStats(stats[id], entry, solved.includes(id));
+
+  const saved = write("imported", {
+    solved: [...prev.solved, ...added],
+    badges: [...prev.badges, ...badges],
+    hintUsage,
+    stats,
+    dailyBest: Math.max(prev.dailyBest, Math.min(d, longestStreak(solved))),
+  });
+  reloadState();
+  if (!saved)
+    return { ok: false, error: "couldn't save progress (storage full?)" };
+
+  return {
+    ok: true,
+    value: {
+      solved: added.length,
+      badges: badges.length,
+      skipped,
+      locked,
+    },
+  };
+}
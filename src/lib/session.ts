@@ -0,0 +1,59 @@
+// src/lib/session.ts
+// 💾 Terminal transcript persistence and user settings
+
+import type { TermLine } from "./output";
+import { read, remove, write } from "./storage";
+
+export type SessionId = string;
+
+/** The first tab; it can't be closed. */
+export const MAIN_SESSION: SessionId = "main";
+
+const MAX_TRANSCRIPT = 500;
+
+export type TerminalSettings = {
+  skipBoot: boolean; // print the boot sequence instantly
+};
+
+const defaultSettings: TerminalSettings = { skipBoot: false };
+
+function isTermLine(x: unknown): x is TermLine {
+  const line = x as TermLine;
+  return typeof line?.kind === "string" && Array.isArray(line.spans);
+}
+
+/** Previous transcript, or an empty array on first visit / old formats. */
+export function loadTranscript(id: SessionId = MAIN_SESSION): TermLine[] {
+  return (read("transcript", id) ?? []).filter(isTermLine);
+}
+
+export function saveTranscript(
+  lines: TermLine[],
+  id: SessionId = MAIN_SESSION
+): void {
+  write("transcript", lines.slice(-MAX_TRANSCRIPT), id);
+}
+
+export function clearTranscript(id: SessionId): void {
+  remove("transcript", id);
+}
+
+/** Open terminal tabs, always starting with the main session. */
+export function loadTabs(): SessionId[] {
+  const ids = (read("tabs") ?? []).filter(
+    (x): x is string => typeof x === "string"
+  );
+  return ids.includes(MAIN_SESSION) ? ids : [MAIN_SESSION, ...ids];
+}
+
+export function saveTabs(ids: SessionId[]): void {
+  write("tabs", ids);
+}
+
+export function loadSettings(): TerminalSettings {
+  return { ...defaultSettings, ...read("settings") };
+}
+
+export function saveSettings(settings: TerminalSettings): void {
+  write("settings", settings);
+}
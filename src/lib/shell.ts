@@ -0,0 +1,221 @@
+// src/lib/shell.ts
+// 🐚 Command-line tokenizer, script parser and option parser
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+/** One pipeline stage: the command name followed by its arguments. */
+export type Argv = string[];
+
+export type Pipeline = {
+  stages: Argv[];
+  /** `> file` / `>> file` on the last stage. */
+  redirect?: { path: string; append: boolean };
+};
+
+/** A pipeline plus the operator that joins it to the previous one. */
+export type Step = { op: ";" | "&&" | "||"; pipeline: Pipeline };
+
+type Operator = "|" | "||" | "&&" | ";" | ">" | ">>";
+type Token = string | { op: Operator };
+
+/**
+ * Splits a command line into words and operators, honouring single quotes
+ * (literal), double quotes (with `\"` and `\\` escapes), backslash escapes
+ * and `#` comments. Newlines act like `;`.
+ */
+function tokenize(line: string): ParseResult<Token[]> {
+  const tokens: Token[] = [];
+  let word = "";
+  let inWord = false;
+  let quote: "'" | '"' | null = null;
+
+  const endWord = () => {
+    if (inWord) tokens.push(word);
+    word = "";
+    inWord = false;
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+
+    if (quote === "'") {
+      if (ch === "'") quote = null;
+      else word += ch;
+      continue;
+    }
+
+    if (quote === '"') {
+      if (ch === '"') quote = null;
+      else if (
+        ch === "\\" &&
+        i + 1 < line.length &&
+        /["\\$`]/.test(line[i + 1])
+      )
+        word += line[++i];
+      else word += ch;
+      continue;
+    }
+
+    const two = line.slice(i, i + 2);
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      inWord = true;
+    } else if (ch === "\\") {
+      if (i + 1 < line.length) word += line[++i];
+      inWord = true;
+    } else if (ch === "#" && !inWord) {
+      while (i + 1 < line.length && line[i + 1] !== "\n") i++;
+    } else if (two === "||" || two === "&&" || two === ">>") {
+      endWord();
+      tokens.push({ op: two });
+      i++;
+    } else if (ch === "|" || ch === ";" || ch === ">") {
+      endWord();
+      tokens.push({ op: ch });
+    } else if (ch === "\n") {
+      endWord();
+      tokens.push({ op: ";" });
+    } else if (/\s/.test(ch)) {
+      endWord();
+    } else {
+      word += ch;
+      inWord = true;
+    }
+  }
+
+  if (quote) return { ok: false, error: `syntax error: unterminated ${quote}` };
+  endWord();
+  return { ok: true, value: tokens };
+}
+
+const unexpected = (token: string): { ok: false; error: string } => ({
+  ok: false,
+  error: `syntax error near unexpected token '${token}'`,
+});
+
+/**
+ * Parses a command line or script into steps, e.g.
+ * `scan | grep A > out.txt && cat out.txt; echo done`.
+ * Empty statements (blank lines, trailing `;`) are skipped.
+ */
+export function parseScript(text: string): ParseResult<Step[]> {
+  const tokens = tokenize(text);
+  if (!tokens.ok) return tokens;
+
+  const steps: Step[] = [];
+  let op: Step["op"] = ";";
+  let pipeline: Pipeline = { stages: [[]] };
+
+  const finish = (next: Step["op"], token: string) => {
+    const empty =
+      pipeline.stages.length === 1 && pipeline.stages[0].length === 0;
+    if (empty && !pipeline.redirect) {
+      // `;` may follow nothing, but `&&`, `||` and `|` need a command
+      if (next !== ";" || op !== ";") return unexpected(token);
+    } else {
+      if (pipeline.stages.some((st) => st.length === 0)) return unexpected("|");
+      steps.push({ op, pipeline });
+    }
+    op = next;
+    pipeline = { stages: [[]] };
+    return null;
+  };
+
+  const list = tokens.value;
+  for (let i = 0; i < list.length; i++) {
+    const t = list[i];
+    const stage = pipeline.stages[pipeline.stages.length - 1];
+
+    if (typeof t === "string") {
+      if (pipeline.redirect) return unexpected(t);
+      stage.push(t);
+    } else if (t.op === "|") {
+      if (stage.length === 0 || pipeline.redirect) return unexpected("|");
+      pipeline.stages.push([]);
+    } else if (t.op === ">" || t.op === ">>") {
+      const target = list[i + 1];
+      if (typeof target !== "string" || stage.length === 0)
+        return unexpected(t.op);
+      pipeline.redirect = { path: target, append: t.op === ">>" };
+      i++;
+    } else {
+      const err = finish(t.op, t.op);
+      if (err) return err;
+    }
+  }
+
+  const err = finish(";", op);
+  if (err) return err;
+  return { ok: true, value: steps };
+}
+
+//
+// ──────────────────────────────────────────────
+// 🚩 Options
+// ──────────────────────────────────────────────
+//
+
+export type ParsedArgs = {
+  flags: Record<string, string | true>;
+  positionals: string[];
+};
+
+/**
+ * Splits arguments into flags and positionals. Supports `--flag`,
+ * `--flag=value`, `-f`, bundled `-abc`, and `-n 3` / `-name x` for options
+ * listed in `takesValue`. Everything after `--` is positional.
+ */
+export function parseArgs(
+  args: string[],
+  takesValue: string[] = []
+): ParsedArgs {
+  const flags: ParsedArgs["flags"] = {};
+  const positionals: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "--") {
+      positionals.push(...args.slice(i + 1));
+      break;
+    }
+
+    if (arg.startsWith("--") && arg.length > 2) {
+      const eq = arg.indexOf("=");
+      const name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+      if (eq !== -1) flags[name] = arg.slice(eq + 1);
+      else if (takesValue.includes(name) && i + 1 < args.length)
+        flags[name] = args[++i];
+      else flags[name] = true;
+      continue;
+    }
+
+    // find-style long options with a single dash, e.g. `-name pattern`
+    if (arg.length > 2 && takesValue.includes(arg.slice(1))) {
+      flags[arg.slice(1)] = i + 1 < args.length ? args[++i] : true;
+      continue;
+    }
+
+    if (arg.startsWith("-") && arg.length > 1 && !/^-\d/.test(arg)) {
+      const letters = arg.slice(1);
+      for (let j = 0; j < letters.length; j++) {
+        const name = letters[j];
+        if (takesValue.includes(name)) {
+          const rest = letters.slice(j + 1);
+          if (rest) flags[name] = rest;
+          else if (i + 1 < args.length) flags[name] = args[++i];
+          else flags[name] = true;
+          break;
+        }
+        flags[name] = true;
+      }
+      continue;
+    }
+
+    positionals.push(arg);
+  }
+
+  return { flags, positionals };
+}
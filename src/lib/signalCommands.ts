@@ -0,0 +1,68 @@
+// src/lib/signalCommands.ts
+// 📡 listen / signal: message passing between terminal tabs
+
+import { registerCommand } from "./commands";
+import type { SessionId } from "./session";
+
+type Delivery = { message: string; from: SessionId };
+
+const LISTEN_TIMEOUT_MS = 60_000;
+const listeners = new Map<string, ((d: Delivery) => void)[]>();
+
+registerCommand({
+  name: "listen",
+  usage: "listen <channel>",
+  description: "Wait for a signal from another tab",
+  run: async ({ args, print }) => {
+    const channel = args[0];
+    if (!channel) {
+      print("Usage: listen <channel>", "stderr");
+      return { ok: false };
+    }
+
+    print(`👂 Listening on '${channel}'...`, "system");
+    let deliver: (d: Delivery) => void = () => {};
+    const received = await Promise.race([
+      new Promise<Delivery>((resolve) => {
+        deliver = resolve;
+        listeners.set(channel, [...(listeners.get(channel) ?? []), resolve]);
+      }),
+      new Promise<null>((r) => setTimeout(() => r(null), LISTEN_TIMEOUT_MS)),
+    ]);
+    listeners.set(
+      channel,
+      (listeners.get(channel) ?? []).filter((l) => l !== deliver)
+    );
+
+    if (!received) {
+      print(`⌛ No signal on '${channel}'.`, "stderr");
+      return { ok: false };
+    }
+    print(`📨 [${received.from}] ${received.message}`, "success");
+  },
+});
+
+registerCommand({
+  name: "signal",
+  usage: "signal <channel> [message]",
+  description: "Send a signal to tabs listening on a channel",
+  complete: (args) => (args.length === 0 ? [...listeners.keys()] : []),
+  run: ({ args, print, sessionId }) => {
+    const [channel, ...rest] = args;
+    if (!channel) {
+      print("Usage: signal <channel> [message]", "stderr");
+      return { ok: false };
+    }
+
+    const waiting = listeners.get(channel) ?? [];
+    if (waiting.length === 0) {
+      print(`📡 No listener on '${channel}'.`, "stderr");
+      return { ok: false };
+    }
+    listeners.delete(channel);
+    waiting.forEach((l) =>
+      l({ message: rest.join(" ") || "ping", from: sessionId })
+    );
+    print(`📡 Signal delivered to ${waiting.length} listener(s).`, "success");
+  },
+});
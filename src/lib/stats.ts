@@ -0,0 +1,174 @@
+// src/lib/stats.ts
+// 📊 Per-puzzle stats, scoring and a local leaderboard of named runs
+
+import type { Difficulty, PuzzleId } from "./puzzles";
+import { read, write } from "./storage";
+
+export type PuzzleStats = {
+  firstSeen?: number; // epoch ms, when the puzzle was first opened/triggered
+  firstAttempt?: number;
+  solvedAt?: number;
+  attempts: number;
+  wrong: number;
+  hints: number; // highest hint tier revealed
+};
+
+export type Run = {
+  name: string;
+  score: number;
+  solved: number;
+  hints: number;
+  wrong: number;
+  duration: number; // ms from first puzzle seen to last solve
+  at: number;
+};
+
+const MAX_RUNS = 20;
+
+export const BASE_SCORES: Record<Difficulty, number> = {
+  easy: 100,
+  medium: 200,
+  hard: 350,
+  secret: 500,
+};
+
+/** Fraction of the base score lost per hint tier and per wrong guess. */
+const HINT_PENALTY = 0.2;
+const WRONG_PENALTY = 0.05;
+/** A solve is always worth at least this fraction of its base score. */
+const MIN_SCORE = 0.1;
+
+//
+// ──────────────────────────────────────────────
+// 💾 Stats records
+// ──────────────────────────────────────────────
+//
+
+export function loadStats(): Record<PuzzleId, PuzzleStats> {
+  return read("stats") ?? {};
+}
+
+function update(id: PuzzleId, fn: (s: PuzzleStats) => PuzzleStats): void {
+  const all = loadStats();
+  all[id] = fn(all[id] ?? { attempts: 0, wrong: 0, hints: 0 });
+  write("stats", all);
+}
+
+export function getStats(id: PuzzleId): PuzzleStats | undefined {
+  return loadStats()[id];
+}
+
+export function recordSeen(id: PuzzleId): void {
+  update(id, (s) => ({ ...s, firstSeen: s.firstSeen ?? Date.now() }));
+}
+
+export function recordAttempt(id: PuzzleId, correct: boolean): void {
+  const now = Date.now();
+  update(id, (s) => ({
+    ...s,
+    firstSeen: s.firstSeen ?? now,
+    firstAttempt: s.firstAttempt ?? now,
+    solvedAt: correct ? s.solvedAt ?? now : s.solvedAt,
+    attempts: s.attempts + 1,
+    wrong: s.wrong + (correct ? 0 : 1),
+  }));
+}
+
+export function recordHints(id: PuzzleId, tier: number): void {
+  update(id, (s) => ({ ...s, hints: Math.max(s.hints, tier) }));
+}
+
+//
+// ──────────────────────────────────────────────
+// 🧮 Scoring
+// ──────────────────────────────────────────────
+//
+
+/** Score for a solved puzzle: base by difficulty, minus hint/guess penalties. */
+export function scorePuzzle(
+  stats: PuzzleStats,
+  difficulty: Difficulty
+): number {
+  if (!stats.solvedAt) return 0;
+  const base = BASE_SCORES[difficulty];
+  const factor = Math.max(
+    MIN_SCORE,
+    1 - stats.hints * HINT_PENALTY - stats.wrong * WRONG_PENALTY
+  );
+  return Math.round(base * factor);
+}
+
+/** Totals for the current run across the given puzzles. */
+export function summarizeRun(
+  puzzles: { id: PuzzleId; difficulty: Difficulty }[]
+): Omit<Run, "name" | "at"> {
+  const all = loadStats();
+  const stats = puzzles.flatMap((p) =>
+    all[p.id] ? [{ p, s: all[p.id] }] : []
+  );
+  const solved = stats.filter(({ s }) => s.solvedAt);
+  const starts = stats.flatMap(({ s }) => s.firstSeen ?? []);
+  const ends = solved.flatMap(({ s }) => s.solvedAt ?? []);
+
+  return {
+    score: solved.reduce(
+      (sum, { p, s }) => sum + scorePuzzle(s, p.difficulty),
+      0
+    ),
+    solved: solved.length,
+    hints: stats.reduce((sum, { s }) => sum + s.hints, 0),
+    wrong: stats.reduce((sum, { s }) => sum + s.wrong, 0),
+    duration: ends.length
+      ? Math.max(...ends) - Math.min(...starts, ...ends)
+      : 0,
+  };
+}
+
+export function formatDuration(ms: number): string {
+  const secs = Math.round(ms / 1000);
+  const h = Math.floor(secs / 3600);
+  const m = Math.floor((secs % 3600) / 60);
+  const s = secs % 60;
+  if (h) return `${h}h ${m}m`;
+  return m ? `${m}m ${s}s` : `${s}s`;
+}
+
+//
+// ──────────────────────────────────────────────
+// 🏆 Leaderboard
+// ──────────────────────────────────────────────
+//
+
+/** Saved runs, best score first. */
+export function getLeaderboard(): Run[] {
+  return (read("leaderboard") ?? []).sort(
+    (a, b) => b.score - a.score || a.at - b.at
+  );
+}
+
+/** Saves a run under `name`; returns its 1-based rank, 0 if it fell off. */
+export function saveRun(
+  name: string,
+  summary: Omit<Run, "name" | "at">
+): number {
+  const run: Run = { ...summary, name, at: Date.now() };
+  const runs = [...getLeaderboard(), run]
+    .sort((a, b) => b.score - a.score || a.at - b.at)
+    .slice(0, MAX_RUNS);
+  write("leaderboard", runs);
+  return runs.indexOf(run) + 1;
+}
+
+export function formatLeaderboard(runs: Run[]): string {
+  if (!runs.length) return "No runs saved yet.";
+  return runs
+    .map((r, i) => {
+      const rank = `${i + 1}.`.padStart(3);
+      const score = `${r.score} pts`.padStart(9);
+      const detail = `${r.solved} solved, ${r.hints} hints, ${r.wrong} wrong`;
+      return `${rank} ${r.name.padEnd(16)}${score}  ${detail}  ${formatDuration(
+        r.duration
+      )}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,541 @@
+// src/lib/storage.ts
+// 🗄️ Typed, versioned persistence — the only module that touches localStorage
+
+import type { PuzzleId } from "./puzzles";
+import type { TermLine } from "./output";
+import type { SessionId, TerminalSettings } from "./session";
+import type { DirNode } from "./vfs";
+import type { Transaction } from "./wallet";
+import type { PuzzleStats, Run } from "./stats";
+import type { LimitState } from "./ratelimit";
+import type { SessionHistory } from "./history";
+import type { SaveData } from "./savecode";
+import {
+  isSigned,
+  newSecret,
+  reportViolation,
+  sign,
+  verify,
+} from "./integrity";
+
+/** Everything the Hacker Lab persists, by key. */
+export type StorageSchema = {
+  solved: PuzzleId[];
+  badges: PuzzleId[];
+  hintUsage: Record<PuzzleId, number>; // hint tiers revealed per puzzle
+  theme: string;
+  activePuzzle: PuzzleId;
+  transcript: TermLine[]; // scoped by terminal session
+  history: SessionHistory; // scoped by terminal session
+  tabs: SessionId[];
+  settings: Partial<TerminalSettings>;
+  aliases: Record<string, string>;
+  vfs: DirNode;
+  wallet: Transaction[];
+  stats: Record<PuzzleId, PuzzleStats>;
+  leaderboard: Run[];
+  rateLimits: Record<string, LimitState>;
+  dailyBest: number;
+  imported: SaveData; // from save codes; unverified, kept apart from the rest
+};
+
+export type StorageKey = keyof StorageSchema;
+
+type Shape = "array" | "object" | "string" | "number";
+
+/** Top-level shape of each value; anything else reads as missing. */
+const SHAPES: Record<StorageKey, Shape> = {
+  solved: "array",
+  badges: "array",
+  hintUsage: "object",
+  theme: "string",
+  activePuzzle: "string",
+  transcript: "array",
+  history: "object",
+  tabs: "array",
+  settings: "object",
+  aliases: "object",
+  vfs: "object",
+  wallet: "array",
+  stats: "object",
+  leaderboard: "array",
+  rateLimits: "object",
+  dailyBest: "number",
+  imported: "object",
+};
+
+/**
+ * Progress worth cheating on. Each entry is stored with an HMAC, the record
+ * with a seal over all of them, and a last good copy of the record is kept
+ * beside it. A record whose seal breaks is rolled back to that copy, or
+ * failing that keeps only the entries that verify. Raw keys written with
+ * `setRawItem` are never signed: editing those is a puzzle mechanic.
+ */
+const SIGNED = new Set<StorageKey>([
+  "solved",
+  "badges",
+  "hintUsage",
+  "wallet",
+  "stats",
+  "leaderboard",
+  "imported",
+]);
+
+const PREFIX = "lab:";
+const VERSION_KEY = `${PREFIX}version`;
+const SECRET_KEY = `${PREFIX}secret`;
+
+/** `lab:<key>`, or `lab:<key>:<scope>` for per-session values. */
+function storageKey(key: StorageKey, scope?: string): string {
+  return scope === undefined ? PREFIX + key : `${PREFIX}${key}:${scope}`;
+}
+
+/** Where a signed record's last good copy lives: `lab:good:<key>`. */
+function goodKey(key: StorageKey, scope?: string): string {
+  return `${PREFIX}good:${storageKey(key, scope).slice(PREFIX.length)}`;
+}
+
+/** The schema key and scope behind a raw localStorage key, if any. */
+export function parseStorageKey(
+  raw: string
+): { key: StorageKey; scope?: string } | null {
+  if (!raw.startsWith(PREFIX)) return null;
+  const [key, scope] = raw.slice(PREFIX.length).split(/:(.*)/s);
+  if (!Object.hasOwn(SHAPES, key)) return null;
+  return { key: key as StorageKey, ...(scope !== undefined && { scope }) };
+}
+
+/** True if `value` has the top-level shape stored under `key`. */
+export function conforms<K extends StorageKey>(
+  key: K,
+  value: unknown
+): value is StorageSchema[K] {
+  return hasShape(value, SHAPES[key]);
+}
+
+function hasShape(value: unknown, shape: Shape): boolean {
+  if (shape === "array") return Array.isArray(value);
+  if (shape === "object")
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  return typeof value === shape;
+}
+
+//
+// ──────────────────────────────────────────────
+// 🔁 Migrations
+// ──────────────────────────────────────────────
+//
+
+type Migration = (s: Storage) => void;
+
+// Keys used before this module existed, by what they hold now
+const LEGACY_JSON: Record<string, StorageKey> = {
+  portfolio_badges: "badges",
+  puzzle_hint_usage: "hintUsage",
+  terminal_settings: "settings",
+  terminal_tabs: "tabs",
+  terminal_aliases: "aliases",
+  vfs_mount: "vfs",
+  hint_wallet_ledger: "wallet",
+  puzzle_stats: "stats",
+  puzzle_leaderboard: "leaderboard",
+  puzzle_rate_limits: "rateLimits",
+  daily_streak_best: "dailyBest",
+};
+const LEGACY_TEXT: Record<string, StorageKey> = {
+  theme: "theme",
+  activePuzzle: "activePuzzle",
+};
+// `<base>` for the main tab, `<base>:<id>` for the others
+const LEGACY_SESSION: Record<string, StorageKey> = {
+  terminal_history: "transcript",
+  terminal_input_history: "history",
+};
+const LEGACY_SOLVED = "puzzle_solved_";
+
+/** Where a pre-module key's value lives now, or null if it isn't one. */
+function legacyTarget(old: string): { key: StorageKey; scope?: string } | null {
+  const [base, scope = "main"] = old.split(/:(.*)/s);
+  if (Object.hasOwn(LEGACY_JSON, old)) return { key: LEGACY_JSON[old] };
+  if (Object.hasOwn(LEGACY_TEXT, old)) return { key: LEGACY_TEXT[old] };
+  if (Object.hasOwn(LEGACY_SESSION, base))
+    return { key: LEGACY_SESSION[base], scope };
+  if (old.startsWith(LEGACY_SOLVED)) return { key: "solved" };
+  return null;
+}
+
+/**
+ * v1 → v2: ad-hoc keys move under `lab:`; solve flags become one list.
+ * A record already under `lab:` is never replaced by a legacy one.
+ */
+function fromLegacyKeys(s: Storage): void {
+  const keys = Array.from({ length: s.length }, (_, i) => s.key(i));
+  const solved: PuzzleId[] = [];
+  const vacant = (key: string) => s.getItem(key) === null;
+
+  for (const old of keys) {
+    const raw = old === null ? null : s.getItem(old);
+    const target = old === null ? null : legacyTarget(old);
+    if (old === null || raw === null || !target) continue;
+    s.removeItem(old);
+
+    const key = storageKey(target.key, target.scope);
+    if (old.startsWith(LEGACY_SOLVED)) {
+      if (raw === "1") solved.push(old.slice(LEGACY_SOLVED.length));
+    } else if (vacant(key)) {
+      s.setItem(
+        key,
+        Object.hasOwn(LEGACY_TEXT, old) ? JSON.stringify(raw) : raw
+      );
+    }
+  }
+
+  if (solved.length && vacant(storageKey("solved")))
+    s.setItem(storageKey("solved"), JSON.stringify(solved));
+}
+
+/** v2 → v3: progress records gain per-entry signatures. */
+function signRecords(s: Storage): void {
+  for (const key of SIGNED) {
+    const raw = s.getItem(storageKey(key));
+    if (raw === null) continue;
+    try {
+      const value: unknown = JSON.parse(raw);
+      if (isSigned(value)) continue; // only ever signed by this install
+      s.setItem(storageKey(key), JSON.stringify(sign(secretOf(s), key, value)));
+    } catch {
+      // unreadable already; it reads as missing either way
+    }
+  }
+}
+
+/**
+ * Legacy keys turning up once signing has begun were planted, e.g. with
+ * `lab:version` deleted to replay the migrations. They're removed, and the
+ * progress they claim is reported rather than imported.
+ */
+function dropLegacyKeys(s: Storage): void {
+  const keys = Array.from({ length: s.length }, (_, i) => s.key(i));
+  const forged = new Map<StorageKey, string[]>();
+
+  for (const old of keys) {
+    const raw = old === null ? null : s.getItem(old);
+    const target = old === null ? null : legacyTarget(old);
+    if (old === null || raw === null || !target) continue;
+    s.removeItem(old);
+    if (!SIGNED.has(target.key)) continue;
+    const entry = old.startsWith(LEGACY_SOLVED)
+      ? JSON.stringify(old.slice(LEGACY_SOLVED.length))
+      : raw;
+    forged.set(target.key, [...(forged.get(target.key) ?? []), entry]);
+  }
+
+  forged.forEach((entries, key) => reportViolation(key, entries));
+}
+
+/** v3 → v4: input histories gain the time they were last cleared. */
+function historyEpochs(s: Storage): void {
+  const keys = Array.from({ length: s.length }, (_, i) => s.key(i));
+  for (const key of keys) {
+    if (key === null || parseStorageKey(key)?.key !== "history") continue;
+    try {
+      const entries: unknown = JSON.parse(s.getItem(key) ?? "null");
+      if (Array.isArray(entries))
+        s.setItem(key, JSON.stringify({ entries, cleared: 0 }));
+    } catch {
+      // unreadable already; it reads as missing either way
+    }
+  }
+}
+
+/**
+ * v4 → v5: signed records gain a seal over the whole record and a last
+ * good copy. Entries that don't verify are dropped and reported first.
+ */
+function sealRecords(s: Storage): void {
+  for (const key of SIGNED) {
+    const raw = s.getItem(storageKey(key));
+    if (raw === null) continue;
+    try {
+      const stored: unknown = JSON.parse(raw);
+      if (!isSigned(stored)) continue; // left for `read` to quarantine
+      const { value, tampered } = verify(secretOf(s), key, stored);
+      const sealed = JSON.stringify(sign(secretOf(s), key, value));
+      s.setItem(storageKey(key), sealed);
+      s.setItem(goodKey(key), sealed);
+      if (tampered.length) reportViolation(key, tampered);
+    } catch {
+      // unreadable already; it reads as missing either way
+    }
+  }
+}
+
+/** `MIGRATIONS[n]` upgrades version `n + 1`; v1 is the pre-module layout. */
+const MIGRATIONS: Migration[] = [
+  fromLegacyKeys,
+  signRecords,
+  historyEpochs,
+  sealRecords,
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length + 1;
+
+/** `signRecords` creates the secret, so an install holding one is past it. */
+const SIGNED_SINCE = 3;
+
+/**
+ * Runs the migrations `lab:version` asks for. That key is as editable as
+ * any other, so it's only trusted before the install has a secret: a true
+ * first install. After that a missing or older version can't replay the
+ * legacy import or re-sign anything.
+ */
+function migrate(s: Storage): void {
+  const stored = Number(s.getItem(VERSION_KEY)) || 1;
+  let from = stored;
+  if (from < SIGNED_SINCE && s.getItem(SECRET_KEY) !== null) {
+    dropLegacyKeys(s);
+    from = SIGNED_SINCE;
+  }
+  MIGRATIONS.slice(from - 1).forEach((m) => m(s));
+  if (stored < SCHEMA_VERSION) s.setItem(VERSION_KEY, String(SCHEMA_VERSION));
+}
+
+//
+// ──────────────────────────────────────────────
+// 💽 Backend
+// ──────────────────────────────────────────────
+//
+
+/** A `Storage` that lives in memory and vanishes with the page. */
+export class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+let backend: Storage | null = null;
+const warned = new Set<string>();
+
+/** Logs each distinct storage problem once instead of on every write. */
+function warnOnce(message: string, error?: unknown): void {
+  if (warned.has(message)) return;
+  warned.add(message);
+  console.warn(`[storage] ${message}`, error ?? "");
+}
+
+/**
+ * localStorage, migrated to the current schema. When it can't be used at
+ * all (disabled, some incognito modes) progress lives in memory instead.
+ */
+function store(): Storage {
+  if (backend) return backend;
+  try {
+    localStorage.getItem(VERSION_KEY);
+    backend = localStorage;
+  } catch (e) {
+    warnOnce("localStorage unavailable — progress won't survive a reload", e);
+    backend = new MemoryStorage();
+  }
+  try {
+    migrate(backend);
+  } catch (e) {
+    warnOnce("migration failed", e);
+  }
+  return backend;
+}
+
+let pageSecret: string | null = null;
+
+/** The per-install signing secret, created on first use. */
+function secretOf(s: Storage): string {
+  try {
+    const existing = s.getItem(SECRET_KEY);
+    if (existing) return existing;
+    const secret = newSecret();
+    s.setItem(SECRET_KEY, secret);
+    return secret;
+  } catch (e) {
+    warnOnce("couldn't store the signing secret", e);
+    return (pageSecret ??= newSecret());
+  }
+}
+
+/**
+ * Points all reads and writes at `next` (e.g. a `MemoryStorage` sandbox);
+ * `null` goes back to localStorage.
+ */
+export function swapBackend(next: Storage | null): void {
+  backend = next;
+}
+
+//
+// ──────────────────────────────────────────────
+// 📖 Access
+// ──────────────────────────────────────────────
+//
+
+type Unpacked<K extends StorageKey> = {
+  value: StorageSchema[K] | null;
+  tampered: string[]; // JSON of entries whose signature didn't check out
+  intact: boolean; // false once a signed record's seal is broken
+};
+
+function unpack<K extends StorageKey>(key: K, raw: string | null): Unpacked<K> {
+  let value: unknown = null;
+  let tampered: string[] = [];
+  let intact = true;
+  try {
+    value = raw === null ? null : JSON.parse(raw);
+  } catch {
+    return { value: null, tampered, intact: !SIGNED.has(key) };
+  }
+  if (value !== null && SIGNED.has(key))
+    ({ value, tampered, intact } = verify(secretOf(store()), key, value));
+  return { value: conforms(key, value) ? value : null, tampered, intact };
+}
+
+/** The last good copy of a signed record, if it's still intact. */
+function lastGood<K extends StorageKey>(
+  key: K,
+  scope?: string
+): { raw: string; value: StorageSchema[K] } | null {
+  let raw: string | null = null;
+  try {
+    raw = store().getItem(goodKey(key, scope));
+  } catch {
+    return null;
+  }
+  if (raw === null) return null;
+  const { value, intact } = unpack(key, raw);
+  return intact && value !== null ? { raw, value } : null;
+}
+
+/**
+ * The stored value, or null if missing, unreadable or the wrong shape.
+ * A signed record that was altered is reported and quarantined: it goes
+ * back to its last good copy, or when there's none keeps only the entries
+ * that verify. Genuine entries are never dropped.
+ */
+export function read<K extends StorageKey>(
+  key: K,
+  scope?: string
+): StorageSchema[K] | null {
+  let raw: string | null = null;
+  try {
+    raw = store().getItem(storageKey(key, scope));
+  } catch {
+    return null;
+  }
+  const { value, tampered, intact } = unpack(key, raw);
+  if (intact) return value;
+
+  const good = lastGood(key, scope);
+  if (good) {
+    setItem(storageKey(key, scope), good.raw);
+    reportViolation(key, tampered, true);
+    return good.value;
+  }
+  if (value === null) remove(key, scope);
+  else write(key, value, scope);
+  reportViolation(key, tampered);
+  return value;
+}
+
+/** Reads a raw stored string (e.g. from another tab), verifying signatures. */
+export function decode<K extends StorageKey>(
+  key: K,
+  raw: string | null
+): StorageSchema[K] | null {
+  const { value, tampered, intact } = unpack(key, raw);
+  if (!intact) reportViolation(key, tampered);
+  return value;
+}
+
+/**
+ * Saves a value; false if it couldn't be stored (quota full etc.). Signed
+ * records also refresh their last good copy.
+ */
+export function write<K extends StorageKey>(
+  key: K,
+  value: StorageSchema[K],
+  scope?: string
+): boolean {
+  const signed = SIGNED.has(key);
+  const raw = JSON.stringify(
+    signed ? sign(secretOf(store()), key, value) : value
+  );
+  const saved = setItem(storageKey(key, scope), raw);
+  if (saved && signed) setItem(goodKey(key, scope), raw);
+  if (saved) writeListeners.forEach((l) => l(key, raw, scope));
+  return saved;
+}
+
+/** Receives the stored string; `decode` turns it back into a value. */
+type WriteListener = (key: StorageKey, raw: string, scope?: string) => void;
+
+const writeListeners = new Set<WriteListener>();
+
+/** Called after every successful `write`, e.g. to tell other tabs. */
+export function onWrite(listener: WriteListener): () => void {
+  writeListeners.add(listener);
+  return () => {
+    writeListeners.delete(listener);
+  };
+}
+
+export function remove(key: StorageKey, scope?: string): void {
+  try {
+    store().removeItem(storageKey(key, scope));
+    if (SIGNED.has(key)) store().removeItem(goodKey(key, scope));
+  } catch (e) {
+    warnOnce(`couldn't remove '${storageKey(key, scope)}'`, e);
+  }
+}
+
+/**
+ * Writes an arbitrary key outside the schema, for puzzles whose answer is
+ * a localStorage entry.
+ */
+export function setRawItem(key: string, value: string): boolean {
+  return setItem(key, value);
+}
+
+/** Reads an arbitrary key outside the schema; never signed or verified. */
+export function getRawItem(key: string): string | null {
+  try {
+    return store().getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function setItem(key: string, value: string): boolean {
+  try {
+    store().setItem(key, value);
+    return true;
+  } catch (e) {
+    const quota = e instanceof DOMException && e.name === "QuotaExceededError";
+    warnOnce(
+      quota ? `quota exceeded, '${key}' not saved` : `couldn't save '${key}'`,
+      e
+    );
+    return false;
+  }
+}
@@ -0,0 +1,83 @@
+// src/lib/store.ts
+// 🧠 Central game state: one snapshot of progress that every view reads
+
+import { useSyncExternalStore } from "react";
+import { getHintUsage, getImported, type PuzzleId } from "./puzzles";
+import { on } from "./events";
+import { read } from "./storage";
+import { getBalance } from "./wallet";
+
+export type GameState = {
+  solved: PuzzleId[]; // here or through a save code
+  badges: PuzzleId[];
+  hintUsage: Record<PuzzleId, number>; // highest hint tier revealed
+  imported: PuzzleId[]; // solved only through a save code, unverified
+  balance: number;
+};
+
+type Listener = (state: GameState) => void;
+
+let state: GameState | null = null;
+const listeners = new Set<Listener>();
+
+const union = (a: PuzzleId[], b: PuzzleId[]) => [...new Set([...a, ...b])];
+
+function load(): GameState {
+  const solved = read("solved") ?? [];
+  const imported = getImported();
+  return {
+    solved: union(solved, imported.solved),
+    badges: union(read("badges") ?? [], imported.badges),
+    hintUsage: getHintUsage(),
+    imported: imported.solved.filter((id) => !solved.includes(id)),
+    balance: getBalance(),
+  };
+}
+
+/** The current snapshot; the same object until the next reload. */
+export function getState(): GameState {
+  return (state ??= load());
+}
+
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Re-reads progress from storage and notifies subscribers. Runs on every
+ * game event, and when another tab or the studio sandbox swaps storage.
+ */
+export function reloadState(): void {
+  state = load();
+  listeners.forEach((l) => l(state!));
+}
+
+on("puzzle:solved", reloadState);
+on("badge:earned", reloadState);
+on("hint:unlocked", reloadState);
+on("wallet:changed", reloadState);
+on("sync:applied", reloadState);
+on("packs:registered", reloadState);
+window.addEventListener("storage", reloadState);
+
+//
+// ──────────────────────────────────────────────
+// 🎯 Selectors
+// ──────────────────────────────────────────────
+//
+
+export const selectSolved = (s: GameState) => s.solved;
+export const selectBadges = (s: GameState) => s.badges;
+export const selectHintUsage = (s: GameState) => s.hintUsage;
+export const selectImported = (s: GameState) => s.imported;
+export const selectBalance = (s: GameState) => s.balance;
+export const selectHintsUsed = (s: GameState) =>
+  Object.values(s.hintUsage).reduce((a, b) => a + b, 0);
+
+/** Re-renders the calling component whenever the store changes. */
+export function useGameState<T>(selector: (s: GameState) => T): T {
+  return selector(useSyncExternalStore(subscribe, getState));
+}
@@ -0,0 +1,260 @@
+// src/lib/studio.ts
+// 🛠️ Puzzle studio: plaintext drafts, preview compilation and pack import/export
+
+import {
+  getRegistry,
+  hashAnswer,
+  type Difficulty,
+  type HintTier,
+  type Puzzle,
+  type PuzzleFile,
+  type PuzzleId,
+} from "./puzzles";
+import { qualifyId, validatePack } from "./packs";
+import type { Route } from "./router";
+
+export const STUDIO_PATH = "/studio";
+
+const SS_KEY = "puzzle_studio_draft";
+
+/** `?studio` opens the studio anywhere; dev builds also serve `#/studio`. */
+export function isStudioRoute(route: Route): boolean {
+  return (
+    route.params.has("studio") ||
+    (import.meta.env.DEV && route.path === STUDIO_PATH)
+  );
+}
+
+/** A puzzle as authored in `packs/*.json`: plaintext solutions, no salt. */
+export type DraftPuzzle = Omit<Puzzle, "salt">;
+
+export type DraftPack = {
+  name: string;
+  description?: string;
+  puzzles: DraftPuzzle[];
+};
+
+export type DraftResult =
+  | { ok: true; value: DraftPack }
+  | { ok: false; error: string };
+
+export function newPuzzle(taken: PuzzleId[]): DraftPuzzle {
+  let n = taken.length + 1;
+  while (taken.includes(`puzzle${n}`)) n++;
+  return {
+    id: `puzzle${n}`,
+    title: "Untitled puzzle",
+    short: "One line shown in the puzzle list.",
+    type: "terminal",
+    difficulty: "easy",
+    solutions: [""],
+    hints: [{ text: "", cost: 5 }],
+  };
+}
+
+export function newPack(): DraftPack {
+  return { name: "my-pack", description: "", puzzles: [newPuzzle([])] };
+}
+
+/** Drops empty optional fields so exports read like hand-written packs. */
+export function cleanDraft(draft: DraftPack): DraftPack {
+  return {
+    name: draft.name.trim(),
+    ...(draft.description?.trim() && { description: draft.description }),
+    puzzles: draft.puzzles.map((p) => {
+      const {
+        lower,
+        hidden,
+        description,
+        badge,
+        dependsOn,
+        files,
+        ...required
+      } = p;
+      return {
+        ...required,
+        solutions: p.solutions.filter((s) => s.trim()),
+        hints: p.hints.filter((h) => h.text.trim()),
+        ...(lower && { lower }),
+        ...(hidden && { hidden }),
+        ...(description?.trim() && { description }),
+        ...(badge?.trim() && { badge }),
+        ...(dependsOn?.length && { dependsOn }),
+        ...(files?.length && { files }),
+      };
+    }),
+  };
+}
+
+/** Pack JSON for `packs/`; `npm run hash-packs` hashes it for the app. */
+export function serializeDraft(draft: DraftPack): string {
+  return JSON.stringify(cleanDraft(draft), null, 2) + "\n";
+}
+
+//
+// ──────────────────────────────────────────────
+// 📥 Import
+// ──────────────────────────────────────────────
+//
+
+type Obj = Record<string, unknown>;
+
+const isObj = (x: unknown): x is Obj =>
+  typeof x === "object" && x !== null && !Array.isArray(x);
+const str = (x: unknown) => (typeof x === "string" ? x : "");
+const strs = (x: unknown) =>
+  Array.isArray(x) ? x.filter((s): s is string => typeof s === "string") : [];
+
+function toDraftPuzzle(raw: Obj): DraftPuzzle {
+  const hints: HintTier[] = (Array.isArray(raw.hints) ? raw.hints : [])
+    .filter(isObj)
+    .map((h) => ({
+      text: str(h.text),
+      ...(typeof h.cost === "number" && { cost: h.cost }),
+      ...(typeof h.locked === "boolean" && { locked: h.locked }),
+    }));
+  const files: PuzzleFile[] = (Array.isArray(raw.files) ? raw.files : [])
+    .filter(isObj)
+    .map((f) => ({
+      path: str(f.path),
+      content: str(f.content),
+      ...(typeof f.mode === "number" && { mode: f.mode }),
+    }));
+  return {
+    id: str(raw.id),
+    title: str(raw.title),
+    short: str(raw.short),
+    type: (["localstorage", "route"].includes(str(raw.type))
+      ? raw.type
+      : "terminal") as Puzzle["type"],
+    difficulty: (["medium", "hard", "secret"].includes(str(raw.difficulty))
+      ? raw.difficulty
+      : "easy") as Difficulty,
+    solutions: strs(raw.solutions),
+    hints,
+    lower: raw.lower === true,
+    hidden: raw.hidden === true,
+    description: str(raw.description),
+    badge: str(raw.badge),
+    dependsOn: strs(raw.dependsOn),
+    files,
+  };
+}
+
+/**
+ * Reads a plaintext pack. Hashed packs (from `src/packs` or `public/packs`)
+ * are refused: their answers can't be recovered, so they can't be edited.
+ */
+export function parseDraft(text: string): DraftResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "not valid JSON" };
+  }
+  if (!isObj(raw) || !Array.isArray(raw.puzzles))
+    return { ok: false, error: "not a puzzle pack (no 'puzzles' array)" };
+  const puzzles = raw.puzzles.filter(isObj);
+  if (puzzles.some((p) => "salt" in p))
+    return {
+      ok: false,
+      error: "this pack is already hashed — import its source from packs/",
+    };
+  return {
+    ok: true,
+    value: {
+      name: str(raw.name),
+      description: str(raw.description),
+      puzzles: puzzles.map(toDraftPuzzle),
+    },
+  };
+}
+
+//
+// ──────────────────────────────────────────────
+// 🧪 Preview
+// ──────────────────────────────────────────────
+//
+
+/** Registered puzzles the draft doesn't redefine; it may depend on these. */
+export function getExternalPuzzles(draft: DraftPack): Puzzle[] {
+  const own = new Set(draft.puzzles.map((p) => qualifyId(draft.name, p.id)));
+  return getRegistry().filter((p) => !own.has(p.id));
+}
+
+export type Compiled = { puzzles: Puzzle[]; errors: string[] };
+
+/**
+ * Hashes and validates a draft the way a real pack would be loaded. The
+ * preview set is the draft plus every registered puzzle it (transitively)
+ * depends on, so cross-pack prerequisites show up as well.
+ */
+export async function compileDraft(draft: DraftPack): Promise<Compiled> {
+  const pack = cleanDraft(draft);
+  // Checked before hashing: an empty list would surface as a digest error
+  const unanswered = pack.puzzles.flatMap((p, i) =>
+    p.solutions.length
+      ? []
+      : [`puzzles[${i}] (${p.id}): add at least one solution`]
+  );
+  if (unanswered.length) return { puzzles: [], errors: unanswered };
+
+  const hashed = {
+    ...pack,
+    puzzles: await Promise.all(
+      pack.puzzles.map(async (p) => {
+        const salt = `studio:${p.id}`;
+        const solutions = await Promise.all(
+          p.solutions.map((s) =>
+            hashAnswer(salt, p.lower ? s.toLowerCase() : s)
+          )
+        );
+        return { ...p, salt, solutions };
+      })
+    ),
+  };
+
+  const external = getExternalPuzzles(pack);
+  const { pack: valid, report } = validatePack(hashed, "studio", external);
+  if (!valid) return { puzzles: [], errors: report.errors };
+
+  const byId = new Map(external.map((p) => [p.id, p]));
+  const out = [...valid.puzzles];
+  const seen = new Set(out.map((p) => p.id));
+  for (let i = 0; i < out.length; i++) {
+    for (const dep of out[i].dependsOn ?? []) {
+      const p = byId.get(dep);
+      if (p && !seen.has(dep)) {
+        seen.add(dep);
+        out.push(p);
+      }
+    }
+  }
+  return { puzzles: out, errors: [] };
+}
+
+//
+// ──────────────────────────────────────────────
+// 💾 Draft persistence
+// ──────────────────────────────────────────────
+//
+
+// Kept in sessionStorage: the studio sandboxes the regular storage backend
+
+export function loadDraft(): DraftPack {
+  try {
+    const saved = parseDraft(sessionStorage.getItem(SS_KEY) ?? "");
+    if (saved.ok) return saved.value;
+  } catch {
+    // ignore storage errors (incognito mode etc.)
+  }
+  return newPack();
+}
+
+export function saveDraft(draft: DraftPack): void {
+  try {
+    sessionStorage.setItem(SS_KEY, JSON.stringify(draft));
+  } catch {
+    // ignore storage errors (incognito mode etc.)
+  }
+}
@@ -0,0 +1,137 @@
+// src/lib/sync.ts
+// 🔄 Cross-tab sync: every open tab shows the same progress, theme and history
+
+import type { PuzzleId } from "./puzzles";
+import { emit } from "./events";
+import { mergeHistory } from "./history";
+import { inSandbox } from "./sandbox";
+import {
+  conforms,
+  decode,
+  onWrite,
+  parseStorageKey,
+  read,
+  write,
+  type StorageKey,
+  type StorageSchema,
+} from "./storage";
+
+const CHANNEL = "hacker-lab";
+
+/** Keys kept in step between tabs. */
+export type SyncKey = "solved" | "badges" | "hintUsage" | "theme" | "history";
+
+/**
+ * How a tab combines its stored value with one from another tab. `newer`
+ * says whether the incoming write happened later. Every rule gives the same
+ * result in both tabs, so they converge without coordinating, and returns
+ * `local` itself when there's nothing new.
+ */
+type Merge<K extends SyncKey> = (
+  local: StorageSchema[K],
+  incoming: StorageSchema[K],
+  newer: boolean
+) => StorageSchema[K];
+
+function union(local: PuzzleId[], incoming: PuzzleId[]): PuzzleId[] {
+  const added = incoming.filter((id) => !local.includes(id));
+  return added.length ? [...local, ...added] : local;
+}
+
+function highest(
+  local: Record<PuzzleId, number>,
+  incoming: Record<PuzzleId, number>
+): Record<PuzzleId, number> {
+  const raised = Object.entries(incoming).filter(
+    ([id, tier]) => tier > (local[id] ?? 0)
+  );
+  return raised.length ? { ...local, ...Object.fromEntries(raised) } : local;
+}
+
+const MERGES: { [K in SyncKey]: Merge<K> } = {
+  solved: union,
+  badges: union,
+  hintUsage: highest,
+  theme: (local, incoming, newer) => (newer ? incoming : local),
+  history: (local, incoming) => mergeHistory(local, incoming),
+};
+
+const isSyncKey = (key: StorageKey): key is SyncKey =>
+  Object.hasOwn(MERGES, key);
+
+type SyncMessage = {
+  key: SyncKey;
+  scope?: string;
+  raw: string; // as stored, so signatures are checked on arrival
+  at: number; // epoch ms of the write, orders last-writer-wins keys
+};
+
+let applying = false; // set while storing a merge, so it isn't echoed back
+const lastWrite = new Map<string, number>();
+const slot = (key: SyncKey, scope?: string) => `${key}:${scope ?? ""}`;
+
+/** Merges a value from another tab into storage and tells this tab's views. */
+function apply<K extends SyncKey>(
+  key: K,
+  incoming: unknown,
+  newer: boolean,
+  scope?: string
+): void {
+  if (inSandbox()) return;
+  const local = read(key, scope);
+  if (conforms(key, incoming)) {
+    const merged =
+      local === null ? incoming : MERGES[key](local, incoming, newer);
+    if (merged !== local) {
+      applying = true;
+      try {
+        write(key, merged, scope);
+      } finally {
+        applying = false;
+      }
+    }
+  }
+  emit("sync:applied", { key, scope });
+}
+
+function receive({ key, scope, raw, at }: SyncMessage): void {
+  if (!isSyncKey(key)) return;
+  const value = decode(key, raw);
+  const last = lastWrite.get(slot(key, scope)) ?? 0;
+  const newer =
+    at > last ||
+    (at === last && JSON.stringify(value) > JSON.stringify(read(key, scope)));
+  if (newer) lastWrite.set(slot(key, scope), at);
+  apply(key, value, newer, scope);
+}
+
+/**
+ * Fallback for browsers without BroadcastChannel. The event fires after the
+ * other tab already wrote, so the value it replaced is merged back in.
+ */
+function onStorage(e: StorageEvent): void {
+  const parsed = e.key === null ? null : parseStorageKey(e.key);
+  if (!parsed || !isSyncKey(parsed.key)) return;
+  apply(parsed.key, decode(parsed.key, e.oldValue), false, parsed.scope);
+}
+
+let started = false;
+
+/** Starts syncing with other open tabs; safe to call more than once. */
+export function startSync(): void {
+  if (started) return;
+  started = true;
+
+  if (typeof BroadcastChannel === "undefined") {
+    window.addEventListener("storage", onStorage);
+    return;
+  }
+  const channel = new BroadcastChannel(CHANNEL);
+  channel.onmessage = (e: MessageEvent<SyncMessage>) => receive(e.data);
+  onWrite((key, raw, scope) => {
+    if (applying || !isSyncKey(key) || inSandbox()) return;
+    const at = Date.now();
+    lastWrite.set(slot(key, scope), at);
+    channel.postMessage({ key, scope, raw, at } satisfies SyncMessage);
+  });
+}
@@ -0,0 +1,613 @@
+// src/lib/terminalCommands.ts
+// 🧰 Built-in Hacker Lab commands, registered into the command registry
+
+import { registerCommand, formatHelp } from "./commands";
+import {
+  checkSolution,
+  findPuzzle,
+  formatRequirement,
+  getImported,
+  getPackReports,
+  getPuzzles,
+  isSolved,
+  isUnlocked,
+} from "./puzzles";
+import { formatHistory } from "./history";
+import { completeCommandNames, completePuzzleIds } from "./completion";
+import { fmt } from "./output";
+import { loadSettings, saveSettings, type TerminalSettings } from "./session";
+import { loadAliases, saveAliases, formatAlias } from "./aliases";
+import { resolvePath, readFile, completePath } from "./vfs";
+import { dailyPuzzleId, getStreak } from "./daily";
+import { formatLedger, getBalance, getLedger, SOLVE_REWARDS } from "./wallet";
+import {
+  formatDuration,
+  formatLeaderboard,
+  getLeaderboard,
+  loadStats,
+  saveRun,
+  scorePuzzle,
+  summarizeRun,
+} from "./stats";
+import {
+  clearLimits,
+  formatLockout,
+  getLockout,
+  registerMiss,
+  strictestDifficulty,
+} from "./ratelimit";
+import { read } from "./storage";
+import { exportSave, importSave } from "./savecode";
+
+registerCommand({
+  name: "help",
+  usage: "help [command]",
+  description: "Show available commands",
+  complete: (args) => (args.length === 0 ? completeCommandNames() : []),
+  run: ({ args, print }) => print(formatHelp(args[0])),
+});
+
+registerCommand({
+  name: "clear",
+  aliases: ["cls"],
+  usage: "clear",
+  description: "Clear terminal logs",
+  run: ({ clear }) => clear(),
+});
+
+registerCommand({
+  name: "reboot",
+  usage: "reboot",
+  description: "Restart the terminal with a full boot",
+  run: ({ reboot }) => reboot(),
+});
+
+registerCommand({
+  name: "settings",
+  usage: "settings [name on|off]",
+  description: "View or change terminal settings",
+  complete: (args) =>
+    args.length === 0
+      ? Object.keys(loadSettings())
+      : args.length === 1
+      ? ["on", "off"]
+      : [],
+  run: ({ args, print }) => {
+    const settings = loadSettings();
+    const [name, value] = args;
+
+    if (!name) {
+      print(
+        Object.entries(settings)
+          .map(([k, v]) => `  ${k.padEnd(10)} ${v ? "on" : "off"}`)
+          .join("\n")
+      );
+      return;
+    }
+    if (!(name in settings) || (value !== "on" && value !== "off")) {
+      print("Usage: settings [name on|off]", "stderr");
+      return { ok: false };
+    }
+    saveSettings({
+      ...settings,
+      [name as keyof TerminalSettings]: value === "on",
+    });
+    print(`⚙️ ${name} → ${value}`, "success");
+  },
+});
+
+registerCommand({
+  name: "history",
+  usage: "history [n | -c]",
+  description: "List previous commands (!n, !! to rerun)",
+  complete: (args) => (args.length === 0 ? ["-c"] : []),
+  run: ({ args, print, history, clearHistory }) => {
+    if (args[0] === "-c") {
+      clearHistory();
+      return;
+    }
+    const count = args[0] ? parseInt(args[0], 10) : undefined;
+    if (args[0] && (!count || count < 0)) {
+      print("Usage: history [n | -c]", "stderr");
+      return { ok: false };
+    }
+    print(history.length ? formatHistory(history, count) : "History is empty.");
+  },
+});
+
+// 🔗 ALIASES & SCRIPTS
+
+registerCommand({
+  name: "alias",
+  usage: "alias [name='command']",
+  description: "Define or list command aliases",
+  run: ({ args, print }) => {
+    const aliases = loadAliases();
+    if (args.length === 0) {
+      const names = Object.keys(aliases).sort();
+      if (names.length)
+        print(names.map((n) => formatAlias(n, aliases[n])).join("\n"));
+      return;
+    }
+
+    let ok = true;
+    for (const arg of args) {
+      const eq = arg.indexOf("=");
+      if (eq === -1) {
+        if (Object.hasOwn(aliases, arg)) print(formatAlias(arg, aliases[arg]));
+        else {
+          print(`alias: ${arg}: not found`, "stderr");
+          ok = false;
+        }
+        continue;
+      }
+      const name = arg.slice(0, eq);
+      if (!/^[\w.-]+$/.test(name)) {
+        print(`alias: '${name}': invalid alias name`, "stderr");
+        ok = false;
+        continue;
+      }
+      aliases[name] = arg.slice(eq + 1);
+    }
+    saveAliases(aliases);
+    return { ok };
+  },
+});
+
+registerCommand({
+  name: "unalias",
+  usage: "unalias <name...> | -a",
+  description: "Remove aliases",
+  complete: () => Object.keys(loadAliases()),
+  run: ({ args, print }) => {
+    if (args.length === 0) {
+      print("Usage: unalias <name...> | -a", "stderr");
+      return { ok: false };
+    }
+    if (args[0] === "-a") {
+      saveAliases({});
+      return;
+    }
+    const aliases = loadAliases();
+    let ok = true;
+    for (const name of args) {
+      if (Object.hasOwn(aliases, name)) delete aliases[name];
+      else {
+        print(`unalias: ${name}: not found`, "stderr");
+        ok = false;
+      }
+    }
+    saveAliases(aliases);
+    return { ok };
+  },
+});
+
+registerCommand({
+  name: "source",
+  aliases: ["."],
+  usage: "source <file>",
+  description: "Run the commands in a script file",
+  complete: (args, partial, cwd) =>
+    args.length === 0 ? completePath(cwd, partial) : [],
+  run: async ({ args, cwd, print, exec }) => {
+    if (!args[0]) {
+      print("Usage: source <file>", "stderr");
+      return { ok: false };
+    }
+    const file = readFile(resolvePath(cwd, args[0]));
+    if (!file.ok) {
+      print(`source: ${file.error}`, "stderr");
+      return { ok: false };
+    }
+    return { ok: await exec(file.value) };
+  },
+});
+
+registerCommand({
+  name: "badge",
+  usage: "badge list",
+  description: "View collected badges",
+  complete: (args) => (args.length === 0 ? ["list"] : []),
+  run: ({ args, print }) => {
+    if (args[0] !== "list") {
+      print("Usage: badge list", "stderr");
+      return { ok: false };
+    }
+    const local = read("badges") ?? [];
+    const badges = [
+      ...local,
+      ...getImported()
+        .badges.filter((id) => !local.includes(id))
+        .map((id) => `${id} (imported)`),
+    ];
+    print(badges.length ? badges.join(", ") : "No badges yet.");
+  },
+});
+
+registerCommand({
+  name: "wallet",
+  usage: "wallet [log [n]|rates]",
+  description: "Show your points balance, ledger or solve rewards",
+  complete: (args) => (args.length === 0 ? ["log", "rates"] : []),
+  run: ({ args, print }) => {
+    const [sub, n] = args;
+    if (!sub) {
+      print(`💰 Balance: ${fmt.yellow(String(getBalance()))} pts`);
+      print(
+        `Earn points by solving puzzles; spend them on hints. Try ${fmt.cmd(
+          "wallet log"
+        )}.`,
+        "system"
+      );
+      return;
+    }
+    if (sub === "log") {
+      const count = n === undefined ? undefined : Number(n);
+      if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+        print(`wallet: ${n}: numeric argument required`, "stderr");
+        return { ok: false };
+      }
+      print(formatLedger(getLedger(), count));
+      return;
+    }
+    if (sub === "rates") {
+      Object.entries(SOLVE_REWARDS).forEach(([difficulty, points]) =>
+        print(`${difficulty.padEnd(8)} +${points}`)
+      );
+      return;
+    }
+    print("Usage: wallet [log [n]|rates]", "stderr");
+    return { ok: false };
+  },
+});
+
+registerCommand({
+  name: "score",
+  usage: "score [save <name>|top]",
+  description: "Show puzzle stats and score, or the local leaderboard",
+  complete: (args) => (args.length === 0 ? ["save", "top"] : []),
+  run: ({ args, print }) => {
+    const [sub, ...rest] = args;
+    const puzzles = getPuzzles(true);
+
+    if (!sub) {
+      const all = loadStats();
+      puzzles
+        .filter((p) => all[p.id])
+        .forEach((p) => {
+          const s = all[p.id];
+          const status = s.solvedAt ? fmt.green("✓") : fmt.dim("○");
+          const points = `${scorePuzzle(s, p.difficulty)} pts`.padStart(8);
+          const detail = `${s.attempts} tries, ${s.wrong} wrong, ${s.hints} hints`;
+          print(`${status} ${p.title.padEnd(18)}${points}  ${detail}`);
+        });
+      const run = summarizeRun(puzzles);
+      print(
+        `Total: ${fmt.bold(String(run.score))} pts · ${run.solved}/${
+          puzzles.length
+        } solved · ${formatDuration(run.duration)}`,
+        "system"
+      );
+      return;
+    }
+    if (sub === "save") {
+      const name = rest.join(" ").trim().slice(0, 16);
+      if (!name) {
+        print("Usage: score save <name>", "stderr");
+        return { ok: false };
+      }
+      const rank = saveRun(name, summarizeRun(puzzles));
+      print(
+        rank
+          ? `🏆 Run saved as '${name}' — rank #${rank}`
+          : "Run not saved — it didn't make the leaderboard.",
+        "success"
+      );
+      return;
+    }
+    if (sub === "top") {
+      print(formatLeaderboard(getLeaderboard()));
+      return;
+    }
+    print("Usage: score [save <name>|top]", "stderr");
+    return { ok: false };
+  },
+});
+
+registerCommand({
+  name: "save",
+  usage: "save export | save import <code>",
+  description: "Move progress to another device with a save code",
+  complete: (args) => (args.length === 0 ? ["export", "import"] : []),
+  run: async ({ args, print }) => {
+    const [sub, ...rest] = args;
+    if (sub === "export") {
+      print(await exportSave());
+      print(
+        `Run ${fmt.bold(
+          "save import <code>"
+        )} on the other device, or use the HUD for a file or QR code.`,
+        "system"
+      );
+      return;
+    }
+    if (sub === "import" && rest.length) {
+      const result = await importSave(rest.join(""));
+      if (!result.ok) {
+        print(`save: ${result.error}`, "stderr");
+        return { ok: false };
+      }
+      const { solved, badges, skipped, locked } = result.value;
+      print(
+        `💾 Progress merged: ${solved} new solves, ${badges} new badges.`,
+        "success"
+      );
+      print(
+        "Imported progress unlocks puzzles but stays unverified: it earns no points or leaderboard score.",
+        "system"
+      );
+      if (skipped.length)
+        print(`Skipped unknown puzzles: ${skipped.join(", ")}`, "system");
+      if (locked.length)
+        print(
+          `Skipped solves with unsolved prerequisites: ${locked.join(", ")}`,
+          "system"
+        );
+      return;
+    }
+    print("Usage: save export | save import <code>", "stderr");
+    return { ok: false };
+  },
+});
+
+registerCommand({
+  name: "daily",
+  usage: "daily [streak]",
+  description: "Show today's generated challenge and your streak",
+  complete: (args) => (args.length === 0 ? ["streak"] : []),
+  run: ({ args, print, trigger }) => {
+    const streak = getStreak();
+    if (args[0] === "streak") {
+      print(
+        `🔥 Streak: ${fmt.bold(String(streak.current))} day(s) · best ${
+          streak.best
+        }`
+      );
+      return;
+    }
+    if (args.length) {
+      print("Usage: daily [streak]", "stderr");
+      return { ok: false };
+    }
+
+    const id = dailyPuzzleId();
+    const p = findPuzzle(id);
+    if (!p) {
+      print("⚠️ Today's challenge could not be generated.", "stderr");
+      return { ok: false };
+    }
+    print(fmt.bold(p.title));
+    print(p.description ?? p.short);
+    if (streak.solvedToday) {
+      print(
+        `✅ Solved — come back tomorrow. Streak: ${streak.current}`,
+        "success"
+      );
+    } else {
+      print(`Answer with ${fmt.cmd(`submit ${id} <answer>`)}`, "system");
+      trigger(id);
+    }
+  },
+});
+
+registerCommand({
+  name: "packs",
+  usage: "packs",
+  description: "List loaded puzzle packs and validation errors",
+  run: ({ print }) => {
+    const reports = getPackReports();
+    reports.forEach((r) => {
+      const status = r.errors.length
+        ? fmt.red(`✗ rejected (${r.errors.length} error(s))`)
+        : fmt.green(`✓ ${r.loaded} puzzle(s)`);
+      print(`${fmt.bold(r.name)}  ${status}  ${fmt.dim(r.source)}`);
+      r.errors.forEach((e) => print(`    ${e}`, "stderr"));
+    });
+    return { ok: reports.every((r) => r.errors.length === 0) };
+  },
+});
+
+// 🧠 PUZZLE COMMANDS
+// Trigger commands only reveal clues; answers go through `submit` / `flag`.
+
+const SCAN_SECTORS = [
+  "noise 7f3a",
+  "ok",
+  "FRAGMENT[1/2] = ACCESS",
+  "noise 00c1",
+  "ok",
+  "checksum mismatch",
+  "noise 9be2",
+  "ok",
+  "FRAGMENT[2/2] = GRANTED",
+  "noise 51d0",
+  "ok",
+  "ok",
+];
+
+registerCommand({
+  name: "scan",
+  usage: "scan",
+  description: "Run a system scan",
+  run: async ({ print, sleep, trigger }) => {
+    print("Running system scan...", "system");
+    await sleep(1000);
+    SCAN_SECTORS.forEach((status, i) =>
+      print(
+        `sector 0x${(i * 0x17).toString(16).padStart(2, "0")} .... ${status}`
+      )
+    );
+    print(
+      `Fragments recovered. Join them with '_' and run ${fmt.bold(
+        "submit scanPuzzle <code>"
+      )}.`,
+      "system"
+    );
+    trigger("scanPuzzle");
+  },
+});
+
+registerCommand({
+  name: "probe",
+  usage: "probe",
+  description: "Probe deeper after scan",
+  dependsOn: ["scanPuzzle"],
+  lockedMessage: "⚠️ Run 'scan' first.",
+  run: async ({ print, sleep, trigger }) => {
+    print("Initiating deep data probe...", "system");
+    await sleep(1200);
+    print("Found residual echo: R0O7_5IGN4L_F0UND");
+    print(
+      "Echo corrupted — digits overwrote letters. Reconstruct and submit it to probePuzzle.",
+      "system"
+    );
+    trigger("probePuzzle");
+  },
+});
+
+registerCommand({
+  name: "awakening",
+  usage: "awakening",
+  description: "Unlock the final secret",
+  hidden: true,
+  dependsOn: ["probePuzzle", "localKeyPuzzle"],
+  lockedMessage: "⚠️ System not ready. Complete prior sequences.",
+  run: async ({ print, sleep, trigger }) => {
+    print("⚡ Initiating awakening protocol...", "system");
+    await sleep(1500);
+    print("Transcending local space...", "system");
+    print("Do not try to bend the spoon. That's impossible.");
+    print("Instead, only try to realize the truth: _____ __ __ _____");
+    print("Speak the truth in capitals, words joined by '_'.", "system");
+    trigger("neoEaster");
+  },
+});
+
+/** Puzzles a visitor may currently submit answers for. */
+function openPuzzleIds(): string[] {
+  return completePuzzleIds().filter(
+    (id) => !isSolved(id) && isUnlocked(id) && findPuzzle(id)?.type !== "route"
+  );
+}
+
+registerCommand({
+  name: "submit",
+  usage: "submit <puzzleId> <answer>",
+  description: "Submit an answer for a puzzle",
+  complete: (args) => (args.length === 0 ? completePuzzleIds() : []),
+  run: async ({ args, print, pulse, sleep }) => {
+    const [id, ...rest] = args;
+    const answer = rest.join(" ");
+    if (!id || !answer) {
+      print("Usage: submit <puzzleId> <answer>", "stderr");
+      return { ok: false };
+    }
+    if (!completePuzzleIds().includes(id)) {
+      print(`❌ Unknown puzzle: ${id}`, "stderr");
+      return { ok: false };
+    }
+    if (isSolved(id)) {
+      print(`🔁 ${findPuzzle(id)?.title} is already solved.`, "system");
+      return;
+    }
+    if (!isUnlocked(id)) {
+      print(formatRequirement(id), "stderr");
+      return { ok: false };
+    }
+    if (findPuzzle(id)?.type === "route") {
+      print("🧭 Route puzzles are solved by visiting the right URL.", "stderr");
+      return { ok: false };
+    }
+    const wait = getLockout(id);
+    if (wait) {
+      pulse("denied");
+      print(formatLockout(wait), "stderr");
+      return { ok: false };
+    }
+
+    print("Verifying...", "system");
+    await sleep(600);
+    const result = await checkSolution(id, answer);
+    if (result.ok) {
+      pulse("granted");
+      print(result.message, "success");
+    } else {
+      pulse("denied");
+      print(result.message, "stderr");
+    }
+    return result;
+  },
+});
+
+const FLAG_SCOPE = "flag";
+
+registerCommand({
+  name: "flag",
+  usage: "flag <answer>",
+  description: "Submit an answer against every open puzzle",
+  run: async ({ args, print, pulse, sleep }) => {
+    const answer = args.join(" ");
+    if (!answer) {
+      print("Usage: flag <answer>", "stderr");
+      return { ok: false };
+    }
+    // `flag` sprays every puzzle at once, so it is limited as a whole, as
+    // strictly as the hardest puzzle it checks
+    const wait = getLockout(FLAG_SCOPE);
+    if (wait) {
+      pulse("denied");
+      print(formatLockout(wait), "stderr");
+      return { ok: false };
+    }
+
+    print("Verifying...", "system");
+    await sleep(600);
+    const ids = openPuzzleIds();
+    for (const id of ids) {
+      const result = await checkSolution(id, answer, { countMiss: false });
+      if (result.ok) {
+        pulse("granted");
+        print(`${result.message} — ${findPuzzle(id)?.title}`, "success");
+        clearLimits(FLAG_SCOPE);
+        return result;
+      }
+    }
+    pulse("denied");
+    const difficulty = strictestDifficulty(
+      ids.map((id) => findPuzzle(id)?.difficulty ?? "medium")
+    );
+    const lockout = registerMiss(FLAG_SCOPE, difficulty ?? "medium");
+    print(lockout ? formatLockout(lockout) : "❌ Invalid flag.", "stderr");
+    return { ok: false };
+  },
+});
+
+// Hard and secret hints are unlocked by typing this; PuzzleEngine's unlock
+// dialog listens for it on the `command:executed` event
+registerCommand({
+  name: "unlock",
+  usage: "unlock hint<N>",
+  description: "Authorize a hint requested from the puzzle panel",
+  run: ({ args, print, pulse }) => {
+    const [target] = args;
+    if (args.length !== 1 || !/^hint\d+$/i.test(target)) {
+      print("Usage: unlock hint<N>", "stderr");
+      return { ok: false };
+    }
+    pulse("granted");
+    print(
+      `🔓 Authorization for ${target.toLowerCase()} transmitted.`,
+      "success"
+    );
+  },
+});
@@ -0,0 +1,308 @@
+// src/lib/vfs.ts
+// 💽 In-memory virtual filesystem for the Hacker Lab, persisted to storage
+
+import { getPuzzles, getRegistry } from "./puzzles";
+import { read, write } from "./storage";
+import { on } from "./events";
+
+export type FileNode = { type: "file"; mode: number; content: string };
+export type DirNode = {
+  type: "dir";
+  mode: number;
+  children: Record<string, FsNode>;
+};
+export type FsNode = FileNode | DirNode;
+
+export type FsResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export const HOME = "/home/guest";
+
+const DIR_MODE = 0o755;
+const FILE_MODE = 0o644;
+
+// 🗂️ Base layout, seeded on first mount
+const baseFiles: { path: string; content: string; mode?: number }[] = [
+  {
+    path: "/etc/motd",
+    content:
+      "Welcome to the Neural Terminal.\nEverything here is a clue, including what you can't see.",
+  },
+  {
+    path: `${HOME}/README.txt`,
+    content:
+      "Guest node.\nUse 'ls -a' to see everything, 'cat' to read and 'cd' to move around.",
+  },
+  { path: "/var/log/.keep", content: "" },
+  { path: "/tmp/.keep", content: "" },
+];
+
+let root: DirNode | null = null;
+
+//
+// ──────────────────────────────────────────────
+// 💾 Mount & persistence
+// ──────────────────────────────────────────────
+//
+
+function emptyDir(): DirNode {
+  return { type: "dir", mode: DIR_MODE, children: {} };
+}
+
+function load(): DirNode | null {
+  const saved = read("vfs");
+  return saved?.type === "dir" ? saved : null;
+}
+
+function save(): void {
+  if (root) write("vfs", root);
+}
+
+/** Writes a seed file unless something already lives at that path. */
+function seed(path: string, content: string, mode = FILE_MODE): void {
+  const parts = split(path);
+  const name = parts.pop();
+  if (!name) return;
+  let dir = root!;
+  for (const part of parts) {
+    const next = dir.children[part];
+    if (next?.type === "file") return;
+    dir = next ?? (dir.children[part] = emptyDir());
+  }
+  if (!dir.children[name]) dir.children[name] = { type: "file", mode, content };
+}
+
+/**
+ * Loads the saved filesystem (or a fresh one) and seeds base files and
+ * puzzle clues that are missing. Safe to call repeatedly.
+ */
+export function mountFs(): DirNode {
+  if (root) return root;
+  root = load() ?? emptyDir();
+  baseFiles.forEach((f) => seed(f.path, f.content, f.mode));
+  getPuzzles(true).forEach((p) =>
+    p.files?.forEach((f) => seed(f.path, f.content, f.mode))
+  );
+  save();
+  return root;
+}
+
+// Packs registered after the mount bring their clues along
+on("packs:registered", ({ puzzles }) => {
+  if (!root) return;
+  getRegistry()
+    .filter((p) => puzzles.includes(p.id))
+    .forEach((p) => p.files?.forEach((f) => seed(f.path, f.content, f.mode)));
+  save();
+});
+
+//
+// ──────────────────────────────────────────────
+// 🧭 Paths
+// ──────────────────────────────────────────────
+//
+
+function split(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+/** Resolves `path` against `cwd`, handling `~`, `.` and `..`. */
+export function resolvePath(cwd: string, path: string): string {
+  const expanded = path.replace(/^~(?=\/|$)/, HOME);
+  const parts = expanded.startsWith("/") ? [] : split(cwd);
+  for (const part of split(expanded)) {
+    if (part === ".") continue;
+    if (part === "..") parts.pop();
+    else parts.push(part);
+  }
+  return "/" + parts.join("/");
+}
+
+/** Shortens paths under the home directory to `~`. */
+export function displayPath(path: string): string {
+  if (path === HOME) return "~";
+  return path.startsWith(HOME + "/") ? "~" + path.slice(HOME.length) : path;
+}
+
+export function getNode(path: string): FsNode | undefined {
+  let node: FsNode = mountFs();
+  for (const part of split(path)) {
+    if (node.type !== "dir") return undefined;
+    const next: FsNode | undefined = node.children[part];
+    if (!next) return undefined;
+    node = next;
+  }
+  return node;
+}
+
+function canRead(node: FsNode): boolean {
+  return (node.mode & 0o400) !== 0;
+}
+
+function canWrite(node: FsNode): boolean {
+  return (node.mode & 0o200) !== 0;
+}
+
+function canEnter(node: FsNode): boolean {
+  return (node.mode & 0o100) !== 0;
+}
+
+//
+// ──────────────────────────────────────────────
+// 📂 Operations
+// ──────────────────────────────────────────────
+//
+
+export type DirEntry = { name: string; node: FsNode };
+
+export function listDir(path: string, all = false): FsResult<DirEntry[]> {
+  const node = getNode(path);
+  if (!node) return { ok: false, error: `${path}: No such file or directory` };
+  if (node.type === "file")
+    return { ok: true, value: [{ name: split(path).pop() ?? path, node }] };
+  if (!canRead(node)) return { ok: false, error: `${path}: Permission denied` };
+  const entries = Object.entries(node.children)
+    .filter(([name]) => all || !name.startsWith("."))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, child]) => ({ name, node: child }));
+  return { ok: true, value: entries };
+}
+
+export function readFile(path: string): FsResult<string> {
+  const node = getNode(path);
+  if (!node) return { ok: false, error: `${path}: No such file or directory` };
+  if (node.type === "dir")
+    return { ok: false, error: `${path}: Is a directory` };
+  if (!canRead(node)) return { ok: false, error: `${path}: Permission denied` };
+  return { ok: true, value: node.content };
+}
+
+export function changeDir(path: string): FsResult<string> {
+  const node = getNode(path);
+  if (!node) return { ok: false, error: `${path}: No such file or directory` };
+  if (node.type !== "dir")
+    return { ok: false, error: `${path}: Not a directory` };
+  if (!canEnter(node))
+    return { ok: false, error: `${path}: Permission denied` };
+  return { ok: true, value: path };
+}
+
+/** Creates or overwrites a file; the parent directory must already exist. */
+export function writeFile(
+  path: string,
+  content: string,
+  append = false
+): FsResult<string> {
+  const parts = split(path);
+  const name = parts.pop();
+  const parent = getNode("/" + parts.join("/"));
+  if (!name || !parent || parent.type !== "dir")
+    return { ok: false, error: `${path}: No such file or directory` };
+
+  const existing = parent.children[name];
+  if (existing?.type === "dir")
+    return { ok: false, error: `${path}: Is a directory` };
+  if (existing ? !canWrite(existing) : !canWrite(parent))
+    return { ok: false, error: `${path}: Permission denied` };
+
+  // Files hold lines without a trailing newline, so appends add one
+  if (existing)
+    existing.content =
+      append && existing.content ? `${existing.content}\n${content}` : content;
+  else parent.children[name] = { type: "file", mode: FILE_MODE, content };
+  save();
+  return { ok: true, value: path };
+}
+
+/** Returns a script's source if the file exists and is executable. */
+export function readExecutable(path: string): FsResult<string> {
+  const node = getNode(path);
+  if (node?.type === "file" && !(node.mode & 0o100))
+    return { ok: false, error: `${path}: Permission denied` };
+  return readFile(path);
+}
+
+/** Applies an octal (`755`) or symbolic (`u+x`, `a-w`, `+r`) mode change. */
+export function chmod(path: string, mode: string): FsResult<number> {
+  const node = getNode(path);
+  if (!node) return { ok: false, error: `${path}: No such file or directory` };
+
+  let next: number;
+  if (/^[0-7]{3}$/.test(mode)) {
+    next = parseInt(mode, 8);
+  } else {
+    const m = mode.match(/^([ugoa]*)([+\-=])([rwx]+)$/);
+    if (!m) return { ok: false, error: `invalid mode: '${mode}'` };
+    const [, who, op, perms] = m;
+    const shifts = (who || "a").includes("a")
+      ? [6, 3, 0]
+      : [...who].map((w) => ({ u: 6, g: 3, o: 0 }[w as "u" | "g" | "o"]));
+    const bits = [...perms].reduce(
+      (acc, p) => acc | { r: 4, w: 2, x: 1 }[p as "r" | "w" | "x"],
+      0
+    );
+    const mask = shifts.reduce((acc, s) => acc | (bits << s), 0);
+    const clear = shifts.reduce((acc, s) => acc | (7 << s), 0);
+    next =
+      op === "+"
+        ? node.mode | mask
+        : op === "-"
+        ? node.mode & ~mask
+        : (node.mode & ~clear) | mask;
+  }
+
+  node.mode = next;
+  save();
+  return { ok: true, value: next };
+}
+
+/** Walks the tree below `path`, yielding every readable path. */
+export function findPaths(path: string, pattern?: string): FsResult<string[]> {
+  const start = getNode(path);
+  if (!start) return { ok: false, error: `${path}: No such file or directory` };
+
+  const re = pattern ? globToRegExp(pattern) : null;
+  const out: string[] = [];
+  const walk = (node: FsNode, at: string) => {
+    const name = split(at).pop() ?? "/";
+    if (!re || re.test(name)) out.push(at);
+    if (node.type !== "dir" || !canRead(node)) return;
+    Object.keys(node.children)
+      .sort()
+      .forEach((child) =>
+        walk(node.children[child], at === "/" ? `/${child}` : `${at}/${child}`)
+      );
+  };
+  walk(start, path);
+  return { ok: true, value: out };
+}
+
+export function formatMode(node: FsNode): string {
+  const triplet = (bits: number) =>
+    (bits & 4 ? "r" : "-") + (bits & 2 ? "w" : "-") + (bits & 1 ? "x" : "-");
+  return (
+    (node.type === "dir" ? "d" : "-") +
+    triplet(node.mode >> 6) +
+    triplet((node.mode >> 3) & 7) +
+    triplet(node.mode & 7)
+  );
+}
+
+function globToRegExp(glob: string): RegExp {
+  const body = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${body}$`);
+}
+
+/** Path candidates for Tab completion; directories end in `/`. */
+export function completePath(cwd: string, partial: string): string[] {
+  const slash = partial.lastIndexOf("/");
+  const dirPart = partial.slice(0, slash + 1);
+  const base = partial.slice(slash + 1);
+  const listing = listDir(resolvePath(cwd, dirPart || "."), true);
+  if (!listing.ok) return [];
+  return listing.value
+    .filter(({ name }) => base.startsWith(".") || !name.startsWith("."))
+    .map(({ name, node }) => dirPart + name + (node.type === "dir" ? "/" : ""));
+}
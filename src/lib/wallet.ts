@@ -0,0 +1,148 @@
+// src/lib/wallet.ts
+// 💰 Points wallet: earned by solving puzzles, spent on hint tiers
+
+import type { Difficulty, PuzzleId } from "./puzzles";
+import { read, write } from "./storage";
+import { emit } from "./events";
+
+export type Transaction = {
+  kind: "earn" | "spend";
+  amount: number;
+  reason: string;
+  puzzleId?: PuzzleId;
+  tier?: number;
+  at: number; // epoch ms
+};
+
+/** Credited once, when the ledger is first created. */
+export const STARTING_POINTS = 10;
+
+export const SOLVE_REWARDS: Record<Difficulty, number> = {
+  easy: 10,
+  medium: 20,
+  hard: 35,
+  secret: 50,
+};
+
+//
+// ──────────────────────────────────────────────
+// 📒 Ledger
+// ──────────────────────────────────────────────
+//
+
+function isTransaction(x: unknown): x is Transaction {
+  const t = x as Transaction;
+  return (
+    (t?.kind === "earn" || t?.kind === "spend") &&
+    typeof t.amount === "number" &&
+    typeof t.reason === "string"
+  );
+}
+
+export function getLedger(): Transaction[] {
+  const saved = read("wallet");
+  if (saved) return saved.filter(isTransaction);
+
+  const starter: Transaction[] = [
+    {
+      kind: "earn",
+      amount: STARTING_POINTS,
+      reason: "starter credit",
+      at: Date.now(),
+    },
+  ];
+  saveLedger(starter);
+  return starter;
+}
+
+function saveLedger(ledger: Transaction[]): void {
+  write("wallet", ledger);
+}
+
+function record(tx: Omit<Transaction, "at">): void {
+  const ledger = [...getLedger(), { ...tx, at: Date.now() }];
+  saveLedger(ledger);
+  emit("wallet:changed", { balance: getBalance(ledger) });
+}
+
+export function getBalance(ledger = getLedger()): number {
+  return ledger.reduce(
+    (sum, t) => sum + (t.kind === "earn" ? t.amount : -t.amount),
+    0
+  );
+}
+
+//
+// ──────────────────────────────────────────────
+// 💸 Earning & spending
+// ──────────────────────────────────────────────
+//
+
+/** Credits the solve reward for a puzzle; repeated solves earn nothing. */
+export function earnSolveReward(
+  puzzleId: PuzzleId,
+  difficulty: Difficulty
+): number {
+  const already = getLedger().some(
+    (t) => t.kind === "earn" && t.puzzleId === puzzleId
+  );
+  if (already) return 0;
+  const amount = SOLVE_REWARDS[difficulty];
+  record({ kind: "earn", amount, reason: "puzzle solved", puzzleId });
+  return amount;
+}
+
+/** True if this hint tier was already paid for. */
+export function hasBoughtHint(puzzleId: PuzzleId, tier: number): boolean {
+  return getLedger().some(
+    (t) => t.kind === "spend" && t.puzzleId === puzzleId && t.tier === tier
+  );
+}
+
+export function checkFunds(
+  cost: number
+): { ok: true } | { ok: false; error: string } {
+  const balance = getBalance();
+  return cost > balance
+    ? {
+        ok: false,
+        error: `💸 Not enough points — this costs ${cost}, you have ${balance}.`,
+      }
+    : { ok: true };
+}
+
+/**
+ * Pays for a hint tier. Paying twice for the same tier is a no-op, so an
+ * unlock flow that fires more than once never double-charges.
+ */
+export function spendOnHint(
+  puzzleId: PuzzleId,
+  tier: number,
+  cost: number
+): { ok: true } | { ok: false; error: string } {
+  if (hasBoughtHint(puzzleId, tier)) return { ok: true };
+  const funds = checkFunds(cost);
+  if (!funds.ok) return funds;
+  if (cost > 0)
+    record({
+      kind: "spend",
+      amount: cost,
+      reason: `hint tier ${tier}`,
+      puzzleId,
+      tier,
+    });
+  return { ok: true };
+}
+
+export function formatLedger(ledger: Transaction[], count?: number): string {
+  const rows = count ? ledger.slice(-count) : ledger;
+  if (!rows.length) return "No transactions yet.";
+  return rows
+    .map((t) => {
+      const amount = `${t.kind === "earn" ? "+" : "-"}${t.amount}`.padStart(5);
+      const when = new Date(t.at).toLocaleString();
+      const what = t.puzzleId ? `${t.reason} (${t.puzzleId})` : t.reason;
+      return `${amount}  ${what}  ${when}`;
+    })
+    .join("\n");
+}
@@ -2,9 +2,18 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './styles/index.css'
 import App from './App.tsx'
+import { loadPuzzlePacks } from './lib/puzzles'
+import { registerDailyChallenge } from './lib/daily'
+import { startSync } from './lib/sync'
+
+startSync()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
   </StrictMode>,
 )
+
+// Extra puzzle packs and today's challenge register in the background;
+// views pick them up from the `packs:registered` event
+void Promise.allSettled([loadPuzzlePacks(), registerDailyChallenge()])